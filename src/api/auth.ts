@@ -1,6 +1,9 @@
 import { loadConfig, saveConfig } from '../config/config.js';
+import { createLogger } from '../utils/logger.js';
 import open from 'open';
 
+const log = createLogger('ws');
+
 interface DeviceCodeResponse {
   deviceCode: string;
   userCode: string;
@@ -12,11 +15,17 @@ interface DeviceCodeResponse {
 
 interface TokenResponse {
   accessToken: string;
+  refreshToken?: string;
   userId: string;
   email: string;
   deviceId: string;
 }
 
+interface RefreshResponse {
+  accessToken: string;
+  refreshToken?: string;
+}
+
 interface PendingResponse {
   status: 'pending';
   error?: string;
@@ -101,6 +110,7 @@ export async function login(): Promise<{ userId: string; email: string }> {
     const tokenResult = result as TokenResponse;
     saveConfig({
       accessToken: tokenResult.accessToken,
+      refreshToken: tokenResult.refreshToken,
       userId: tokenResult.userId,
       deviceId: tokenResult.deviceId,
       email: tokenResult.email,
@@ -115,6 +125,85 @@ export async function login(): Promise<{ userId: string; email: string }> {
   throw new Error('Authentication timed out');
 }
 
+/**
+ * Exchange the refresh token for a new access token
+ */
+export async function refreshAccessToken(refreshToken: string): Promise<void> {
+  const config = loadConfig();
+  const response = await fetch(`${config.apiUrl}/api/v1/auth/refresh`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ refreshToken, deviceId: config.deviceId }),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to refresh access token: ${response.statusText}`);
+  }
+
+  const result = await response.json() as RefreshResponse;
+  saveConfig({
+    accessToken: result.accessToken,
+    // Servers may rotate the refresh token on every use
+    refreshToken: result.refreshToken ?? refreshToken,
+  });
+}
+
+// While waiting for the user to log in again from another terminal: how often to check, and for how long
+const LOGIN_POLL_INTERVAL_MS = 5_000;
+const LOGIN_WAIT_MS = 60 * 60_000;
+
+let renewal: Promise<void> | null = null;
+
+/**
+ * Start using a new access token in this process
+ * Claude processes started from now on reach the LLM proxy with it; running ones keep the old token.
+ */
+function useAccessToken(accessToken: string): void {
+  if (process.env.ANTHROPIC_AUTH_TOKEN !== undefined) {
+    process.env.ANTHROPIC_AUTH_TOKEN = accessToken;
+  }
+}
+
+/**
+ * Get a new access token after the server rejected the current one
+ * Uses the refresh token if there is one, otherwise waits for the user to run
+ * "anyware login" elsewhere, since this terminal belongs to Claude or the status bar.
+ * Concurrent callers share one renewal.
+ */
+export function renewAccessToken(): Promise<void> {
+  if (!renewal) {
+    renewal = (async () => {
+      const { accessToken: rejectedToken, refreshToken } = loadConfig();
+      if (refreshToken) {
+        try {
+          await refreshAccessToken(refreshToken);
+          log.info('Refreshed access token');
+          useAccessToken(loadConfig().accessToken!);
+          return;
+        } catch (e) {
+          log.warn('Token refresh failed:', e);
+        }
+      }
+
+      console.log('\n\x1b[33mYour anyware login has expired. Run "anyware login" in another terminal to keep this session connected.\x1b[0m\n');
+      const deadline = Date.now() + LOGIN_WAIT_MS;
+      while (Date.now() < deadline) {
+        await sleep(LOGIN_POLL_INTERVAL_MS);
+        const { accessToken } = loadConfig();
+        if (accessToken && accessToken !== rejectedToken) {
+          log.info('Picked up the access token from a new login');
+          useAccessToken(accessToken);
+          return;
+        }
+      }
+      throw new Error('Your anyware login has expired. Run "anyware login" to log in again.');
+    })().finally(() => {
+      renewal = null;
+    });
+  }
+  return renewal;
+}
+
 function sleep(ms: number): Promise<void> {
   return new Promise(resolve => setTimeout(resolve, ms));
 }
@@ -0,0 +1,53 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { encodeFrames, MAX_FRAME_BYTES } from './framing.js';
+
+const event = (seq: number, text = 'hi') => ({ type: 'claude_event', seq, payload: { text } });
+const all = { batches: true, chunks: true };
+
+describe('encodeFrames', () => {
+  it('sends one frame per event when the server takes neither batches nor chunks', () => {
+    const frames = encodeFrames([event(1), event(2), event(3, 'x'.repeat(MAX_FRAME_BYTES))], { batches: false, chunks: false });
+    assert.deepEqual(frames.map((frame) => frame.seqs), [[1], [2], [3]]);
+    assert.deepEqual(JSON.parse(frames[0].data), event(1));
+  });
+
+  it('batches a burst of events in order', () => {
+    const frames = encodeFrames([event(1), event(2), event(3)], all);
+    assert.equal(frames.length, 1);
+    assert.deepEqual(frames[0].seqs, [1, 2, 3]);
+    assert.deepEqual(JSON.parse(frames[0].data), { type: 'batch', payload: { messages: [event(1), event(2), event(3)] } });
+  });
+
+  it('sends a lone event as is', () => {
+    assert.deepEqual(JSON.parse(encodeFrames([event(1)], all)[0].data), event(1));
+  });
+
+  it('starts a new batch at 100 events', () => {
+    const events = Array.from({ length: 150 }, (_, i) => event(i + 1));
+    assert.deepEqual(encodeFrames(events, all).map((frame) => frame.seqs.length), [100, 50]);
+  });
+
+  it('splits an event too large for one frame into chunks that join back up', () => {
+    const large = event(2, '€'.repeat(MAX_FRAME_BYTES / 2));
+    const frames = encodeFrames([event(1), large, event(3)], all);
+    const chunks = frames.slice(1, -1).map((frame) => JSON.parse(frame.data));
+
+    assert.deepEqual(frames[0].seqs, [1]);
+    assert.deepEqual(frames.at(-1)!.seqs, [3]);
+    assert.ok(chunks.length > 1);
+    assert.ok(frames.every((frame) => Buffer.byteLength(frame.data) <= MAX_FRAME_BYTES));
+    assert.deepEqual(frames.slice(1, -1).map((frame) => frame.complete), [...Array(chunks.length - 1).fill(false), true]);
+    assert.deepEqual(chunks.map((chunk) => chunk.payload.index), [...chunks.keys()]);
+    assert.deepEqual(JSON.parse(chunks.map((chunk) => chunk.payload.data).join('')), large);
+  });
+
+  it('does not cut surrogate pairs between chunks', () => {
+    const frames = encodeFrames([event(1, '😀'.repeat(MAX_FRAME_BYTES / 2))], all);
+    for (const frame of frames) {
+      const data: string = JSON.parse(frame.data).payload.data;
+      const last = data.charCodeAt(data.length - 1);
+      assert.ok(last < 0xd800 || last > 0xdbff);
+    }
+  });
+});
@@ -0,0 +1,103 @@
+/**
+ * Packing outgoing events into WebSocket frames
+ *
+ * When the server's hello says it can take them, bursts of events go out as
+ * one batch frame, and events too large for a single frame are split into
+ * chunks the server puts back together. Otherwise every event is its own frame.
+ */
+
+import type { ChunkMessage, WSMessage } from './protocol.js';
+
+// Largest frame we build on purpose; bigger events are chunked
+export const MAX_FRAME_BYTES = 256 * 1024;
+// Characters per chunk; at most 3 UTF-8 bytes each, so a chunk frame stays under MAX_FRAME_BYTES
+const CHUNK_CHARS = Math.floor(MAX_FRAME_BYTES / 3) - 1024;
+const MAX_BATCH_MESSAGES = 100;
+
+export interface FrameOptions {
+  batches: boolean;
+  chunks: boolean;
+}
+
+export interface Frame {
+  data: string;
+  /** Sequence numbers of the events in this frame */
+  seqs: number[];
+  /** False for all but the last chunk of an event */
+  complete: boolean;
+}
+
+/**
+ * Split a string into pieces of at most `size` characters, without cutting surrogate pairs
+ */
+function splitString(value: string, size: number): string[] {
+  const pieces: string[] = [];
+  let start = 0;
+  while (start < value.length) {
+    let end = Math.min(start + size, value.length);
+    const last = value.charCodeAt(end - 1);
+    if (end < value.length && last >= 0xd800 && last <= 0xdbff) {
+      end--;
+    }
+    pieces.push(value.slice(start, end));
+    start = end;
+  }
+  return pieces;
+}
+
+function chunkFrames(seq: number, data: string): Frame[] {
+  const pieces = splitString(data, CHUNK_CHARS);
+  return pieces.map((piece, index) => {
+    const chunk: ChunkMessage = { type: 'chunk', payload: { seq, index, count: pieces.length, data: piece } };
+    return { data: JSON.stringify(chunk), seqs: [seq], complete: index === pieces.length - 1 };
+  });
+}
+
+/**
+ * Build the frames for a run of events, keeping their order
+ */
+export function encodeFrames(messages: Array<WSMessage & { seq: number }>, options: FrameOptions): Frame[] {
+  const frames: Frame[] = [];
+  let batch: Array<{ seq: number; data: string }> = [];
+  let batchBytes = 0;
+
+  const flushBatch = () => {
+    if (batch.length === 1) {
+      frames.push({ data: batch[0].data, seqs: [batch[0].seq], complete: true });
+    } else if (batch.length > 1) {
+      // Events are already serialized; splice them in rather than encoding them again
+      frames.push({
+        data: `{"type":"batch","payload":{"messages":[${batch.map((item) => item.data).join(',')}]}}`,
+        seqs: batch.map((item) => item.seq),
+        complete: true,
+      });
+    }
+    batch = [];
+    batchBytes = 0;
+  };
+
+  for (const message of messages) {
+    const data = JSON.stringify(message);
+    const bytes = Buffer.byteLength(data);
+
+    if (bytes > MAX_FRAME_BYTES) {
+      flushBatch();
+      frames.push(...(options.chunks ? chunkFrames(message.seq, data) : [{ data, seqs: [message.seq], complete: true }]));
+      continue;
+    }
+
+    if (!options.batches) {
+      frames.push({ data, seqs: [message.seq], complete: true });
+      continue;
+    }
+
+    if (batch.length >= MAX_BATCH_MESSAGES || batchBytes + bytes > MAX_FRAME_BYTES) {
+      flushBatch();
+    }
+    batch.push({ seq: message.seq, data });
+    batchBytes += bytes;
+  }
+  flushBatch();
+
+  return frames;
+}
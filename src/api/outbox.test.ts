@@ -0,0 +1,69 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Outbox } from './outbox.js';
+
+function send(outbox: Outbox, at: number) {
+  const entries = outbox.unsent();
+  for (const entry of entries) {
+    entry.sentAt = at;
+  }
+  return entries;
+}
+
+describe('Outbox', () => {
+  it('numbers events in order', () => {
+    const outbox = new Outbox();
+    assert.deepEqual([outbox.add('a', 1).seq, outbox.add('b', 2).seq], [1, 2]);
+    assert.deepEqual(outbox.unsent()[1].message, { type: 'b', seq: 2, payload: 2 });
+  });
+
+  it('keeps events until acknowledged, and lets go of everything up to the ack', () => {
+    const outbox = new Outbox();
+    outbox.add('a', 1);
+    outbox.add('b', 2);
+    outbox.add('c', 3);
+    const sent = send(outbox, 100);
+
+    assert.equal(outbox.ack(2).length, 2);
+    assert.equal(outbox.written(sent[2]), false);
+    assert.deepEqual(outbox.pending().map((entry) => entry.seq), [3]);
+  });
+
+  it('lets go of written events when the server sends no acks', () => {
+    const outbox = new Outbox();
+    outbox.add('a', 1);
+    const [entry] = send(outbox, 100);
+    assert.equal(outbox.written(entry), true);
+    assert.equal(outbox.size(), 0);
+  });
+
+  it('resends only what stayed unacknowledged too long', () => {
+    const outbox = new Outbox();
+    outbox.add('a', 1);
+    outbox.add('b', 2);
+    send(outbox, 100);
+
+    // Without acks, nothing is known to be missing
+    outbox.resendUnackedSince(200);
+    assert.equal(outbox.unsent().length, 0);
+
+    outbox.ack(1);
+    outbox.add('c', 3);
+    send(outbox, 300);
+    outbox.resendUnackedSince(200);
+    assert.deepEqual(outbox.unsent().map((entry) => entry.seq), [2]);
+
+    outbox.resendAll();
+    assert.deepEqual(outbox.unsent().map((entry) => entry.seq), [2, 3]);
+  });
+
+  it('drops the oldest events when full', () => {
+    const outbox = new Outbox(2);
+    outbox.add('a', 1);
+    outbox.add('b', 2);
+    outbox.add('c', 3);
+    assert.deepEqual(outbox.pending().map((entry) => entry.seq), [2, 3]);
+    assert.equal(outbox.takeDroppedCount(), 1);
+    assert.equal(outbox.takeDroppedCount(), 0);
+  });
+});
@@ -0,0 +1,120 @@
+/**
+ * Outbound event buffer for the session WebSocket
+ *
+ * Every buffered event gets the next sequence number for the session and stays here
+ * until it is safe to forget: once acknowledged, if the server sends acks, or
+ * once written to the socket, if it doesn't. Events added while disconnected
+ * are sent in order after reconnecting; the server drops duplicates by seq.
+ * Transient events (partial output, thinking) bypass the outbox entirely.
+ */
+
+import type { WSMessage } from './protocol.js';
+
+// Oldest events are dropped beyond this, so a long outage can't exhaust memory
+const MAX_OUTBOX_ENTRIES = 10_000;
+
+export interface OutboxEntry {
+  seq: number;
+  message: WSMessage & { seq: number };
+  /** When the entry was last sent, or null if it still has to be */
+  sentAt: number | null;
+}
+
+export class Outbox {
+  private nextSeq = 1;
+  private entries: OutboxEntry[] = [];
+  private acksSupported = false;
+  private droppedCount = 0;
+
+  constructor(private readonly maxEntries: number = MAX_OUTBOX_ENTRIES) {}
+
+  /**
+   * Add an event with the next sequence number
+   */
+  add(type: string, payload: unknown): OutboxEntry {
+    const seq = this.nextSeq++;
+    const entry: OutboxEntry = { seq, message: { type, seq, payload }, sentAt: null };
+    this.entries.push(entry);
+
+    if (this.entries.length > this.maxEntries) {
+      this.entries.shift();
+      this.droppedCount++;
+    }
+    return entry;
+  }
+
+  /**
+   * Entries waiting to be sent, oldest first
+   */
+  unsent(): OutboxEntry[] {
+    return this.entries.filter((entry) => entry.sentAt === null);
+  }
+
+  /**
+   * Entries not yet acknowledged (or written), oldest first
+   */
+  pending(): OutboxEntry[] {
+    return [...this.entries];
+  }
+
+  /**
+   * The entry was written to the socket
+   * Without acks from the server, this is as sure as delivery gets; returns whether it was let go
+   */
+  written(entry: OutboxEntry): boolean {
+    if (this.acksSupported) return false;
+    this.remove(entry);
+    return true;
+  }
+
+  /**
+   * The server has everything up to and including seq; returns the sequence numbers let go
+   */
+  ack(seq: number): number[] {
+    this.acksSupported = true;
+    const acked = this.entries.filter((entry) => entry.seq <= seq).map((entry) => entry.seq);
+    this.entries = this.entries.filter((entry) => entry.seq > seq);
+    return acked;
+  }
+
+  /**
+   * Send everything not acknowledged again, e.g. after reconnecting
+   */
+  resendAll(): void {
+    for (const entry of this.entries) {
+      entry.sentAt = null;
+    }
+  }
+
+  /**
+   * Send again what was sent before `before` but not acknowledged since
+   */
+  resendUnackedSince(before: number): void {
+    if (!this.acksSupported) return;
+    for (const entry of this.entries) {
+      if (entry.sentAt !== null && entry.sentAt < before) {
+        entry.sentAt = null;
+      }
+    }
+  }
+
+  /**
+   * Number of events dropped because the buffer was full, since the last call
+   */
+  takeDroppedCount(): number {
+    const count = this.droppedCount;
+    this.droppedCount = 0;
+    return count;
+  }
+
+  size(): number {
+    return this.entries.length;
+  }
+
+  private remove(entry: OutboxEntry): void {
+    const index = this.entries.indexOf(entry);
+    if (index !== -1) {
+      this.entries.splice(index, 1);
+    }
+  }
+}
@@ -0,0 +1,62 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { encodeFrames, MAX_FRAME_BYTES } from './framing.js';
+import {
+  CLI_CAPABILITIES,
+  OutgoingMessageSchema,
+  parseServerMessage,
+  PROTOCOL_VERSION,
+  type ClientHelloMessage,
+  type EventMessage,
+  type OutgoingEventType,
+  type OutgoingMessage,
+} from './protocol.js';
+
+// EventMessage is written out by hand; it has to stay the type the schemas infer
+type Same<A, B> = [A] extends [B] ? ([B] extends [A] ? true : false) : false;
+type EventMessagesMatch = { [K in OutgoingEventType]: Same<EventMessage<K>, Extract<OutgoingMessage, { type: K }>> }[OutgoingEventType];
+const eventMessagesMatch: false extends EventMessagesMatch ? never : true = true;
+
+describe('parseServerMessage', () => {
+  it('accepts known messages', () => {
+    const result = parseServerMessage('{"type":"hello","payload":{"protocolVersion":1}}');
+    assert.deepEqual(result, { ok: true, message: { type: 'hello', payload: { protocolVersion: 1, capabilities: {} } } });
+  });
+
+  it('rejects unknown and malformed messages', () => {
+    assert.deepEqual(parseServerMessage('nope'), { ok: false, error: 'not valid JSON' });
+    assert.deepEqual(parseServerMessage('{"type":"reboot"}'), { ok: false, error: 'unknown message type "reboot"' });
+    assert.equal(parseServerMessage('{"type":"ack","payload":{"seq":"1"}}').ok, false);
+  });
+});
+
+describe('outgoing messages', () => {
+  it('type-checks EventMessage against the schemas', () => {
+    assert.equal(eventMessagesMatch, true);
+  });
+
+  it('describe the hello and session events', () => {
+    const hello: ClientHelloMessage = {
+      type: 'hello',
+      payload: { protocolVersion: PROTOCOL_VERSION, cliVersion: '1.0.0', capabilities: CLI_CAPABILITIES },
+    };
+    const event: EventMessage<'claude_event'> = {
+      type: 'claude_event',
+      seq: 3,
+      payload: { sessionId: 's', event: { type: 'assistant', message: {} }, timestamp: 1 },
+    };
+    assert.deepEqual(OutgoingMessageSchema.parse(hello), hello);
+    assert.deepEqual(OutgoingMessageSchema.parse(event), event);
+    assert.equal(OutgoingMessageSchema.safeParse({ type: 'mode_change', payload: { mode: 'away', timestamp: 1 } }).success, false);
+  });
+
+  it('describe the batch and chunk frames', () => {
+    const small = { type: 'thinking', seq: 1, payload: { thinking: true, timestamp: 1 } };
+    const large = { type: 'claude_event', seq: 2, payload: { text: 'x'.repeat(MAX_FRAME_BYTES) } };
+    const frames = encodeFrames([small, { ...small, seq: 2 }, { ...large, seq: 3 }], { batches: true, chunks: true });
+    assert.deepEqual(
+      frames.map((frame) => OutgoingMessageSchema.parse(JSON.parse(frame.data)).type),
+      ['batch', 'chunk', 'chunk', 'chunk', 'chunk'],
+    );
+  });
+});
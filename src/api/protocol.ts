@@ -0,0 +1,323 @@
+/**
+ * Session WebSocket protocol
+ *
+ * Both sides open with a hello carrying the protocol version and capability
+ * flags, so the server and web clients can tell what this CLI supports.
+ * Incoming messages are validated against the schemas here; anything unknown
+ * or malformed is logged and dropped. Outgoing schemas describe what the CLI
+ * sends and type it at compile time; they aren't checked at runtime.
+ */
+
+import { z } from 'zod';
+
+/** Bumped on incompatible changes to the messages below */
+export const PROTOCOL_VERSION = 1;
+
+/**
+ * What this CLI supports, announced in its hello
+ * New flags are added as features land; removing one is a protocol change.
+ */
+export const CLI_CAPABILITIES = {
+  /** claude_event carries stream_event messages with partial assistant output */
+  partialMessages: true,
+  /** Permission, question and input requests have IDs that responses refer to */
+  requestIds: true,
+  /** interrupt stops the running Claude turn */
+  interrupt: true,
+  /** set_permission_mode and set_model are applied to the running session */
+  sessionSettings: true,
+  /** input_request events for free-form questions from Claude */
+  inputRequests: true,
+  /** Events carry a seq and are sent again until acknowledged */
+  eventAcks: true,
+  /** Several events can arrive in one batch frame (sent only if the server's hello has it too) */
+  batches: true,
+  /** Events over MAX_FRAME_BYTES can arrive as chunks (sent only if the server's hello has it too) */
+  chunks: true,
+} as const;
+
+export type Capabilities = Record<string, boolean>;
+
+/** Any message on the wire */
+export interface WSMessage {
+  type: string;
+  payload?: unknown;
+}
+
+// Incoming: server to CLI
+
+const ImageAttachmentSchema = z.object({
+  name: z.string(),
+  mimeType: z.string(),
+  data: z.string(), // base64 encoded image data
+});
+
+const UserInputMessageSchema = z.object({
+  type: z.literal('user_input'),
+  payload: z.object({
+    sessionId: z.string(),
+    prompt: z.string(),
+    images: z.array(ImageAttachmentSchema).optional(),
+  }),
+});
+
+const PermissionResponseMessageSchema = z.object({
+  type: z.literal('permission_response'),
+  payload: z.object({
+    sessionId: z.string(),
+    /** ID of the PermissionRequest event being answered */
+    requestId: z.string(),
+    response: z.enum(['yes', 'no', 'always']),
+    /** Rule chosen for an "always" answer, e.g. "Bash(npm test:*)" */
+    scope: z.string().optional(),
+    /** Tool input edited before approving, replaces the original input */
+    updatedInput: z.record(z.unknown()).optional(),
+    /** Feedback for Claude explaining a "no" */
+    message: z.string().optional(),
+  }),
+});
+
+const QuestionResponseMessageSchema = z.object({
+  type: z.literal('question_response'),
+  payload: z.object({
+    sessionId: z.string(),
+    /** ID of the AskUserQuestion PermissionRequest event being answered */
+    requestId: z.string(),
+    /** One entry per question, with the labels of the chosen options */
+    answers: z.array(
+      z.object({
+        question: z.string(),
+        selected: z.array(z.string()).optional(),
+        other: z.string().optional(),
+      }),
+    ),
+  }),
+});
+
+const InputResponseMessageSchema = z.object({
+  type: z.literal('input_response'),
+  payload: z.object({
+    sessionId: z.string(),
+    /** ID from the input_request event */
+    requestId: z.string(),
+    text: z.string(),
+  }),
+});
+
+const SwitchMessageSchema = z.object({
+  type: z.literal('switch'),
+  payload: z.object({ sessionId: z.string() }),
+});
+
+const InterruptMessageSchema = z.object({
+  type: z.literal('interrupt'),
+  payload: z.object({ sessionId: z.string() }),
+});
+
+const SetPermissionModeMessageSchema = z.object({
+  type: z.literal('set_permission_mode'),
+  payload: z.object({
+    sessionId: z.string(),
+    /** plan, acceptEdits, default, bypassPermissions (or "bypass") */
+    mode: z.string(),
+  }),
+});
+
+const SetModelMessageSchema = z.object({
+  type: z.literal('set_model'),
+  payload: z.object({
+    sessionId: z.string(),
+    /** Model name, or null for the default model */
+    model: z.string().nullable(),
+  }),
+});
+
+/** Messages handed to the session */
+const IncomingMessageSchemas = [
+  UserInputMessageSchema,
+  PermissionResponseMessageSchema,
+  QuestionResponseMessageSchema,
+  InputResponseMessageSchema,
+  SwitchMessageSchema,
+  InterruptMessageSchema,
+  SetPermissionModeMessageSchema,
+  SetModelMessageSchema,
+] as const;
+
+const IncomingMessageSchema = z.discriminatedUnion('type', [...IncomingMessageSchemas]);
+
+const ServerHelloMessageSchema = z.object({
+  type: z.literal('hello'),
+  payload: z.object({
+    protocolVersion: z.number().int(),
+    capabilities: z.record(z.boolean()).default({}),
+  }),
+});
+
+const PongMessageSchema = z.object({
+  type: z.literal('pong'),
+});
+
+const AckMessageSchema = z.object({
+  type: z.literal('ack'),
+  payload: z.object({
+    /** The server has every event up to and including this one */
+    seq: z.number().int(),
+  }),
+});
+
+const ServerMessageSchema = z.discriminatedUnion('type', [
+  ...IncomingMessageSchemas,
+  ServerHelloMessageSchema,
+  PongMessageSchema,
+  AckMessageSchema,
+]);
+
+export type ImageAttachment = z.infer<typeof ImageAttachmentSchema>;
+export type UserInputMessage = z.infer<typeof UserInputMessageSchema>;
+export type PermissionResponseMessage = z.infer<typeof PermissionResponseMessageSchema>;
+export type QuestionResponseMessage = z.infer<typeof QuestionResponseMessageSchema>;
+export type InputResponseMessage = z.infer<typeof InputResponseMessageSchema>;
+export type SwitchMessage = z.infer<typeof SwitchMessageSchema>;
+export type InterruptMessage = z.infer<typeof InterruptMessageSchema>;
+export type SetPermissionModeMessage = z.infer<typeof SetPermissionModeMessageSchema>;
+export type SetModelMessage = z.infer<typeof SetModelMessageSchema>;
+export type IncomingMessage = z.infer<typeof IncomingMessageSchema>;
+export type ServerHelloMessage = z.infer<typeof ServerHelloMessageSchema>;
+export type ServerMessage = z.infer<typeof ServerMessageSchema>;
+
+export type ParseResult = { ok: true; message: ServerMessage } | { ok: false; error: string };
+
+/**
+ * Parse and validate a message from the server
+ */
+export function parseServerMessage(data: string): ParseResult {
+  let json: unknown;
+  try {
+    json = JSON.parse(data);
+  } catch {
+    return { ok: false, error: 'not valid JSON' };
+  }
+
+  const type = (json as { type?: unknown } | null)?.type;
+  if (typeof type !== 'string') {
+    return { ok: false, error: 'missing message type' };
+  }
+  if (!ServerMessageSchema.optionsMap.has(type)) {
+    return { ok: false, error: `unknown message type "${type}"` };
+  }
+
+  const result = ServerMessageSchema.safeParse(json);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    return { ok: false, error: `invalid ${type} message: ${issue.path.join('.') || 'message'}: ${issue.message}` };
+  }
+  return { ok: true, message: result.data };
+}
+
+// Outgoing: CLI to server
+
+const ClaudeEventSchema = z.object({ type: z.string() }).passthrough();
+
+/** Payloads of session events; most go through the outbox, see wsClient.ts */
+const OutgoingEventPayloadSchemas = {
+  claude_event: z.object({
+    sessionId: z.string(),
+    event: ClaudeEventSchema,
+    /** When the event happened, in ms */
+    timestamp: z.number(),
+  }),
+  thinking: z.object({
+    thinking: z.boolean(),
+    timestamp: z.number(),
+  }),
+  mode_change: z.object({
+    mode: z.enum(['local', 'remote']),
+    timestamp: z.number(),
+  }),
+  permission_mode: z.object({
+    mode: z.string(),
+    error: z.string().optional(),
+    timestamp: z.number(),
+  }),
+  model: z.object({
+    model: z.string().nullable(),
+    error: z.string().optional(),
+    timestamp: z.number(),
+  }),
+};
+
+type OutgoingEventPayloadSchemas = typeof OutgoingEventPayloadSchemas;
+
+/** A session event; seq is absent for live events that aren't buffered */
+function eventMessageSchema<T extends keyof OutgoingEventPayloadSchemas>(type: T) {
+  return z.object({
+    type: z.literal(type),
+    seq: z.number().int().optional(),
+    payload: OutgoingEventPayloadSchemas[type],
+  });
+}
+
+const EventMessageSchema = z.discriminatedUnion('type', [
+  eventMessageSchema('claude_event'),
+  eventMessageSchema('thinking'),
+  eventMessageSchema('mode_change'),
+  eventMessageSchema('permission_mode'),
+  eventMessageSchema('model'),
+]);
+
+const ClientHelloMessageSchema = z.object({
+  type: z.literal('hello'),
+  payload: z.object({
+    protocolVersion: z.number().int(),
+    cliVersion: z.string(),
+    capabilities: z.record(z.boolean()),
+  }),
+});
+
+const PingMessageSchema = z.object({
+  type: z.literal('ping'),
+});
+
+/** Several events in one frame, see framing.ts */
+const BatchMessageSchema = z.object({
+  type: z.literal('batch'),
+  payload: z.object({
+    messages: z.array(z.object({ type: z.string(), seq: z.number().int(), payload: z.unknown() })),
+  }),
+});
+
+/** One piece of an event too large for a single frame; the pieces of `data` joined are the event's JSON */
+const ChunkMessageSchema = z.object({
+  type: z.literal('chunk'),
+  payload: z.object({
+    seq: z.number().int(),
+    index: z.number().int(),
+    count: z.number().int(),
+    data: z.string(),
+  }),
+});
+
+/** Everything the CLI sends; exported for tests and for servers sharing this file */
+export const OutgoingMessageSchema = z.union([
+  ClientHelloMessageSchema,
+  PingMessageSchema,
+  EventMessageSchema,
+  BatchMessageSchema,
+  ChunkMessageSchema,
+]);
+
+export type ClaudeEvent = z.infer<typeof ClaudeEventSchema>;
+export type OutgoingEventType = keyof OutgoingEventPayloadSchemas;
+export type OutgoingEventPayload<T extends OutgoingEventType> = z.infer<OutgoingEventPayloadSchemas[T]>;
+/** Spelled out rather than inferred so it also works for a generic T; protocol.test.ts checks it matches */
+export type EventMessage<T extends OutgoingEventType = OutgoingEventType> = {
+  type: T;
+  seq?: number;
+  payload: OutgoingEventPayload<T>;
+};
+export type ClientHelloMessage = z.infer<typeof ClientHelloMessageSchema>;
+export type PingMessage = z.infer<typeof PingMessageSchema>;
+export type BatchMessage = z.infer<typeof BatchMessageSchema>;
+export type ChunkMessage = z.infer<typeof ChunkMessageSchema>;
+export type OutgoingMessage = z.infer<typeof OutgoingMessageSchema>;
@@ -1,5 +1,10 @@
 import { loadConfig } from '../config/config.js';
 import type { HistoricalEvent } from '../utils/claudeHistory.js';
+import { createLogger } from '../utils/logger.js';
+import { createWSClient, type WSClientOptions } from './wsClient.js';
+import { listLeftoverSpools, removeSpool } from './spool.js';
+
+const log = createLogger('session');
 
 interface CreateSessionResponse {
   sessionId: string;
@@ -15,6 +20,14 @@ interface Session {
   endedAt?: string;
 }
 
+export interface SpoolUploadResult {
+  serverSessionId: string;
+  eventCount: number;
+  /** 'discarded': the session is gone; 'failed': kept for the next try */
+  status: 'uploaded' | 'discarded' | 'failed';
+  error?: string;
+}
+
 interface CreateSessionOptions {
   cwd: string;
   continueFromHistory?: boolean;
@@ -37,7 +50,7 @@ export async function createSession(cwdOrOptions: string | CreateSessionOptions)
   
   if (options.continueFromHistory && options.history && options.history.length > 0) {
     body.history = options.history;
-    console.log(`[session] Sending ${options.history.length} historical events`);
+    log.info(`Sending ${options.history.length} historical events`);
   }
 
   const response = await fetch(`${config.apiUrl}/api/v1/sessions`, {
@@ -106,3 +119,51 @@ export async function getSession(sessionId: string): Promise<Session | null> {
   const result = await response.json() as { session: Session };
   return result.session;
 }
+
+/**
+ * Upload events spooled by earlier runs that were killed before sending them
+ * Spools that can't be uploaded are kept for the next try
+ */
+export async function uploadSpooledEvents(options: Pick<WSClientOptions, 'renewToken'> = {}): Promise<SpoolUploadResult[]> {
+  const config = loadConfig();
+
+  if (!config.accessToken || !config.userId) {
+    throw new Error('Not logged in');
+  }
+
+  const results: SpoolUploadResult[] = [];
+  for (const { serverSessionId, messages } of listLeftoverSpools()) {
+    if (messages.length === 0) {
+      removeSpool(serverSessionId);
+      continue;
+    }
+
+    try {
+      if (!(await getSession(serverSessionId))) {
+        // Nothing to add the events to anymore
+        removeSpool(serverSessionId);
+        results.push({ serverSessionId, eventCount: messages.length, status: 'discarded' });
+        continue;
+      }
+
+      const client = await createWSClient(serverSessionId, config.userId, config.deviceId, {
+        reconnect: false,
+        renewToken: options.renewToken,
+      });
+      try {
+        await client.replay(messages);
+      } finally {
+        client.close();
+      }
+
+      removeSpool(serverSessionId);
+      log.info(`Uploaded ${messages.length} spooled events for session ${serverSessionId}`);
+      results.push({ serverSessionId, eventCount: messages.length, status: 'uploaded' });
+    } catch (e) {
+      const error = e instanceof Error ? e.message : String(e);
+      log.warn(`Could not upload spooled events for session ${serverSessionId}: ${error}`);
+      results.push({ serverSessionId, eventCount: messages.length, status: 'failed', error });
+    }
+  }
+  return results;
+}
@@ -0,0 +1,52 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { spawnSync } from 'node:child_process';
+import { appendFileSync, existsSync, mkdtempSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+// The spool directory is resolved when the module loads
+process.env.HOME = mkdtempSync(join(tmpdir(), 'anyware-spool-'));
+const { Spool, listLeftoverSpools, removeSpool } = await import('./spool.js');
+
+const spoolDir = (serverSessionId: string) => join(process.env.HOME!, '.anyware', 'spool', serverSessionId);
+const event = (seq: number) => ({ type: 'claude_event', seq, payload: { n: seq } });
+
+/** Make the spool look like it was left behind by a process that has exited */
+function orphan(serverSessionId: string) {
+  writeFileSync(join(spoolDir(serverSessionId), 'owner.pid'), String(spawnSync('true').pid));
+}
+
+describe('Spool', () => {
+  it('goes away once everything in it is settled', () => {
+    const spool = new Spool('settled');
+    spool.append(event(1));
+    spool.append(event(2));
+    spool.settle([1]);
+    assert.equal(existsSync(spoolDir('settled')), true);
+    spool.settle([2]);
+    assert.equal(existsSync(spoolDir('settled')), false);
+  });
+
+  it('is left alone while its process runs, and recovered after', () => {
+    const spool = new Spool('running');
+    spool.append(event(1));
+    spool.append(event(1));
+    spool.append(event(2));
+    assert.deepEqual(listLeftoverSpools(), []);
+
+    orphan('running');
+    assert.deepEqual(listLeftoverSpools(), [{ serverSessionId: 'running', messages: [event(1), event(2)] }]);
+    removeSpool('running');
+    assert.deepEqual(listLeftoverSpools(), []);
+  });
+
+  it('skips a last line cut short by a crash', () => {
+    const spool = new Spool('crashed');
+    spool.append(event(1));
+    appendFileSync(join(spoolDir('crashed'), 'events.jsonl'), '{"type":"claude_ev');
+    orphan('crashed');
+    assert.deepEqual(listLeftoverSpools(), [{ serverSessionId: 'crashed', messages: [event(1)] }]);
+    removeSpool('crashed');
+  });
+});
@@ -0,0 +1,141 @@
+/**
+ * On-disk spool for session events that couldn't be sent
+ *
+ * While the WebSocket is down, claude_event messages are also appended to
+ * ~/.anyware/spool/<serverSessionId>/events.jsonl, so they survive the CLI
+ * being killed. The spool is deleted once everything in it has been sent;
+ * leftovers are uploaded by the next `anyware` start or `anyware flush`.
+ */
+
+import { appendFileSync, existsSync, mkdirSync, readFileSync, readdirSync, rmSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { homedir } from 'node:os';
+import type { WSMessage } from './protocol.js';
+import { createLogger } from '../utils/logger.js';
+
+const log = createLogger('ws');
+
+const SPOOL_DIR = join(homedir(), '.anyware', 'spool');
+const EVENTS_FILE = 'events.jsonl';
+// Holds the pid of the process writing the spool, so others leave it alone while it runs
+const OWNER_FILE = 'owner.pid';
+
+export type SpooledMessage = WSMessage & { seq: number };
+
+export interface SpooledSession {
+  serverSessionId: string;
+  messages: SpooledMessage[];
+}
+
+function getSpoolDir(serverSessionId: string): string {
+  return join(SPOOL_DIR, serverSessionId);
+}
+
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (e) {
+    // EPERM: it exists but belongs to someone else
+    return (e as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
+
+/**
+ * Spool for one session's events, written by the process running it
+ */
+export class Spool {
+  private readonly dir: string;
+  private spooled = new Set<number>();
+  private writeFailed = false;
+
+  constructor(serverSessionId: string) {
+    this.dir = getSpoolDir(serverSessionId);
+  }
+
+  /**
+   * Persist a message; appending one that is already spooled does nothing
+   */
+  append(message: SpooledMessage): void {
+    if (this.spooled.has(message.seq) || this.writeFailed) return;
+
+    try {
+      if (this.spooled.size === 0) {
+        mkdirSync(this.dir, { recursive: true, mode: 0o700 });
+        writeFileSync(join(this.dir, OWNER_FILE), String(process.pid), { mode: 0o600 });
+      }
+      appendFileSync(join(this.dir, EVENTS_FILE), JSON.stringify(message) + '\n', { mode: 0o600 });
+      this.spooled.add(message.seq);
+    } catch (e) {
+      // The in-memory outbox still has the event; only crash safety is lost
+      this.writeFailed = true;
+      log.error(`Failed to write event spool ${this.dir}:`, e);
+    }
+  }
+
+  /**
+   * These messages reached the server; the spool goes away once nothing in it is outstanding
+   */
+  settle(seqs: number[]): void {
+    if (this.spooled.size === 0) return;
+
+    for (const seq of seqs) {
+      this.spooled.delete(seq);
+    }
+    if (this.spooled.size === 0) {
+      rmSync(this.dir, { recursive: true, force: true });
+    }
+  }
+}
+
+/**
+ * Read a spool file, skipping a last line cut short by a crash
+ */
+function readSpooledMessages(dir: string): SpooledMessage[] {
+  const filePath = join(dir, EVENTS_FILE);
+  if (!existsSync(filePath)) {
+    return [];
+  }
+
+  const messages: SpooledMessage[] = [];
+  for (const line of readFileSync(filePath, 'utf-8').split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      messages.push(JSON.parse(line) as SpooledMessage);
+    } catch {
+      log.warn(`Skipping unreadable line in ${filePath}`);
+    }
+  }
+  return messages;
+}
+
+/**
+ * Spools left behind by sessions that are no longer running
+ */
+export function listLeftoverSpools(): SpooledSession[] {
+  if (!existsSync(SPOOL_DIR)) {
+    return [];
+  }
+
+  const sessions: SpooledSession[] = [];
+  for (const entry of readdirSync(SPOOL_DIR, { withFileTypes: true })) {
+    if (!entry.isDirectory()) continue;
+
+    const dir = join(SPOOL_DIR, entry.name);
+    const ownerFile = join(dir, OWNER_FILE);
+    const owner = existsSync(ownerFile) ? Number(readFileSync(ownerFile, 'utf-8').trim()) : NaN;
+    if (Number.isInteger(owner) && isProcessAlive(owner)) {
+      continue;
+    }
+
+    sessions.push({ serverSessionId: entry.name, messages: readSpooledMessages(dir) });
+  }
+  return sessions;
+}
+
+/**
+ * Delete a session's spool after uploading it
+ */
+export function removeSpool(serverSessionId: string): void {
+  rmSync(getSpoolDir(serverSessionId), { recursive: true, force: true });
+}
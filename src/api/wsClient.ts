@@ -1,62 +1,77 @@
 import WebSocket from 'ws';
 import { loadConfig } from '../config/config.js';
-
-export interface WSMessage {
-  type: string;
-  payload?: unknown;
-}
-
-export interface ClaudeEvent {
-  type: string;
-  [key: string]: unknown;
-}
-
-// Image attachment from web UI
-export interface ImageAttachment {
-  name: string;
-  mimeType: string;
-  data: string; // base64 encoded image data
-}
-
-export interface UserInputMessage {
-  type: 'user_input';
-  payload: {
-    sessionId: string;
-    prompt: string;
-    images?: ImageAttachment[];
-  };
-}
-
-export interface PermissionResponseMessage {
-  type: 'permission_response';
-  payload: {
-    sessionId: string;
-    response: 'yes' | 'no' | 'always';
-  };
-}
-
-export interface SwitchMessage {
-  type: 'switch';
-  payload: {
-    sessionId: string;
-  };
-}
-
-export type IncomingMessage = UserInputMessage | PermissionResponseMessage | SwitchMessage;
+import { createLogger } from '../utils/logger.js';
+import { currentVersion } from '../update/update.js';
+import { renewAccessToken } from './auth.js';
+import { encodeFrames } from './framing.js';
+import {
+  CLI_CAPABILITIES,
+  PROTOCOL_VERSION,
+  parseServerMessage,
+  type Capabilities,
+  type ClaudeEvent,
+  type ClientHelloMessage,
+  type EventMessage,
+  type IncomingMessage,
+  type OutgoingEventPayload,
+  type OutgoingEventType,
+  type OutgoingMessage,
+  type PingMessage,
+  type WSMessage,
+} from './protocol.js';
+import { Outbox } from './outbox.js';
+import { Spool } from './spool.js';
+
+const log = createLogger('ws');
+
+// Close code the server uses when the access token has expired or been revoked
+const AUTH_FAILED_CLOSE_CODE = 4001;
+// Renewals tried in a row without the server accepting the new token
+const MAX_AUTH_RENEWALS = 2;
+// Events produced within this long of each other share a batch frame, if the server takes batches
+const BATCH_WINDOW_MS = 50;
+// How long a replay waits for the server to acknowledge the events
+const REPLAY_ACK_TIMEOUT_MS = 30_000;
+// How long to wait for the server's hello before sending events without knowing its capabilities
+const HELLO_TIMEOUT_MS = 2_000;
+// ws only compresses frames of 1 KB and up by default; partial output deltas are smaller,
+// but there are many of them and they compress well against the shared deflate context
+const DEFLATE_THRESHOLD_BYTES = 128;
 
 export interface SessionWSClient {
-  send: (message: WSMessage) => void;
+  send: (message: OutgoingMessage) => void;
   sendClaudeEvent: (event: ClaudeEvent, sessionId: string) => void;
   sendThinking: (thinking: boolean) => void;
   sendModeChange: (mode: 'local' | 'remote') => void;
+  sendPermissionMode: (mode: string, error?: string) => void;
+  sendModel: (model: string | null, error?: string) => void;
   sendPresence: (state: 'active' | 'idle' | 'away') => void;
   markActivity: () => void;
+  /**
+   * Send messages that already have sequence numbers, e.g. from a spool
+   * Resolves once the server acknowledged them, or once they were written if the server doesn't send acks
+   */
+  replay: (messages: Array<WSMessage & { seq: number }>) => Promise<void>;
+  /** Capabilities from the server's hello; empty until it arrives or if the server doesn't send one */
+  serverCapabilities: () => Capabilities;
   onMessage: (handler: (message: IncomingMessage) => void) => void;
   onClose: (handler: () => void) => void;
   close: () => void;
 }
 
-export function createWSClient(sessionId: string, userId: string, deviceId?: string): Promise<SessionWSClient> {
+export interface WSClientOptions {
+  /** Reconnect when the connection drops (default true); off for one-shot uploads */
+  reconnect?: boolean;
+  /** Renew a rejected access token, which may wait for a login in another terminal (default true) */
+  renewToken?: boolean;
+}
+
+export function createWSClient(
+  sessionId: string,
+  userId: string,
+  deviceId?: string,
+  options: WSClientOptions = {},
+): Promise<SessionWSClient> {
   return new Promise((resolve, reject) => {
     const config = loadConfig();
 
@@ -69,7 +84,8 @@ export function createWSClient(sessionId: string, userId: string, deviceId?: str
     const wsUrl = config.apiUrl.replace('https://', 'wss://').replace('http://', 'ws://');
     // Include deviceId in URL for device-level presence tracking
     const deviceParam = deviceId ? `&deviceId=${deviceId}` : '';
-    const url = `${wsUrl}/ws/session/${sessionId}?type=cli&userId=${userId}${deviceParam}&token=${config.accessToken}`;
+    // The token goes in a header, so it stays out of proxy and server access logs
+    const url = `${wsUrl}/ws/session/${sessionId}?type=cli&userId=${userId}${deviceParam}`;
 
     let ws: WebSocket;
     let messageHandler: ((message: IncomingMessage) => void) | null = null;
@@ -78,25 +94,282 @@ export function createWSClient(sessionId: string, userId: string, deviceId?: str
     let reconnectAttempts = 0;
     const maxReconnects = 50; // Allow many reconnects for long sessions
     let isIntentionallyClosed = false;
+    // Highest seq the server has acknowledged, and replays waiting for it
+    let ackedSeq = 0;
+    const ackWaiters = new Set<() => void>();
+    // Replays waiting for the server's hello
+    const handshakeWaiters = new Set<() => void>();
     let clientResolved = false;
+    // Set when the server rejects the token during the handshake
+    let authFailed = false;
+    let authRenewals = 0;
+    let serverCapabilities: Capabilities = {};
+    let flushTimer: NodeJS.Timeout | null = null;
+    // Events wait until the server's hello says whether it takes batches and chunks
+    let handshakeDone = false;
+    let helloTimer: NodeJS.Timeout | null = null;
+    let lastThinking: OutgoingEventPayload<'thinking'> | null = null;
+
+    // Events for the web transcript survive reconnects; see Outbox
+    const outbox = new Outbox();
+    // Transcript events that may not have reached the server are also kept on disk
+    const spool = new Spool(sessionId);
+    // Unacknowledged events are sent again after this long
+    const ackTimeoutMs = 30_000;
+
+    function flushOutbox() {
+      if (flushTimer) {
+        clearTimeout(flushTimer);
+        flushTimer = null;
+      }
+      if (ws.readyState !== WebSocket.OPEN || !handshakeDone) return;
+
+      const dropped = outbox.takeDroppedCount();
+      if (dropped > 0) {
+        log.warn(`Outbox full, dropped ${dropped} oldest events`);
+      }
+
+      const entries = outbox.unsent();
+      if (entries.length === 0) return;
+
+      const bySeq = new Map(entries.map((entry) => [entry.seq, entry]));
+      const frames = encodeFrames(
+        entries.map((entry) => entry.message),
+        { batches: serverCapabilities.batches === true, chunks: serverCapabilities.chunks === true },
+      );
+
+      const now = Date.now();
+      for (const entry of entries) {
+        entry.sentAt = now;
+      }
+      for (const frame of frames) {
+        ws.send(frame.data, (error) => {
+          for (const seq of frame.seqs) {
+            const entry = bySeq.get(seq)!;
+            if (error) {
+              entry.sentAt = null;
+            } else if (frame.complete && outbox.written(entry)) {
+              spool.settle([entry.seq]);
+            }
+          }
+        });
+      }
+    }
+
+    /**
+     * Flush soon rather than now, so a burst of events goes out as one batch
+     */
+    function scheduleFlush() {
+      if (serverCapabilities.batches !== true) {
+        flushOutbox();
+        return;
+      }
+      if (!flushTimer) {
+        flushTimer = setTimeout(flushOutbox, BATCH_WINDOW_MS);
+      }
+    }
+
+    /**
+     * Start sending once the server's hello arrived, or didn't in time
+     */
+    function finishHandshake() {
+      if (handshakeDone) return;
+      handshakeDone = true;
+      if (helloTimer) {
+        clearTimeout(helloTimer);
+        helloTimer = null;
+      }
+
+      for (const check of [...handshakeWaiters]) {
+        check();
+      }
+
+      // Send what was produced while disconnected, in order
+      if (outbox.size() > 0) {
+        log.info(`Sending ${outbox.size()} buffered events`);
+      }
+      outbox.resendAll();
+      flushOutbox();
+
+      // Thinking updates aren't replayed; the current state is enough
+      if (lastThinking) {
+        sendLive('thinking', lastThinking);
+      }
+    }
+
+    function spoolPending() {
+      for (const entry of outbox.pending()) {
+        if (entry.message.type === 'claude_event') {
+          spool.append(entry.message);
+        }
+      }
+    }
+
+    /**
+     * Send an event that is only useful right now: no seq, not buffered, not spooled
+     */
+    function sendLive<T extends OutgoingEventType>(type: T, payload: OutgoingEventPayload<T>) {
+      if (ws.readyState !== WebSocket.OPEN || !handshakeDone) return;
+      // Anything queued before it goes first
+      flushOutbox();
+      const message: EventMessage<T> = { type, payload };
+      ws.send(JSON.stringify(message));
+    }
+
+    function queueEvent<T extends OutgoingEventType>(type: T, payload: OutgoingEventPayload<T>) {
+      const entry = outbox.add(type, payload);
+      if (type === 'claude_event' && ws.readyState !== WebSocket.OPEN) {
+        spool.append(entry.message);
+      }
+      scheduleFlush();
+    }
+
+    /**
+     * The first connection failed; nobody gets a client to close, so stop here
+     */
+    function failToConnect(error: Error) {
+      isIntentionallyClosed = true;
+      reject(error);
+    }
+
+    /**
+     * Resolve once the server's capabilities are known
+     */
+    function waitForHandshake(): Promise<void> {
+      return new Promise((resolveHandshake, rejectHandshake) => {
+        const check = () => {
+          if (handshakeDone) {
+            handshakeWaiters.delete(check);
+            resolveHandshake();
+          } else if (ws.readyState !== WebSocket.OPEN) {
+            handshakeWaiters.delete(check);
+            rejectHandshake(new Error('Connection closed before the handshake finished'));
+          }
+        };
+        handshakeWaiters.add(check);
+        check();
+      });
+    }
+
+    function waitForAck(seq: number): Promise<void> {
+      return new Promise((resolveAck, rejectAck) => {
+        const finish = (error?: Error) => {
+          clearTimeout(timer);
+          ackWaiters.delete(check);
+          if (error) {
+            rejectAck(error);
+          } else {
+            resolveAck();
+          }
+        };
+        const check = () => {
+          if (ackedSeq >= seq) {
+            finish();
+          } else if (ws.readyState !== WebSocket.OPEN) {
+            finish(new Error('Connection closed before the server acknowledged the events'));
+          }
+        };
+        const timer = setTimeout(() => finish(new Error('Server did not acknowledge the events')), REPLAY_ACK_TIMEOUT_MS);
+        ackWaiters.add(check);
+        check();
+      });
+    }
+
+    function giveUp(error: Error) {
+      if (!clientResolved) {
+        failToConnect(error);
+      } else if (closeHandler) {
+        closeHandler();
+      }
+    }
+
+    /**
+     * Get a new token and reconnect; doesn't count as a reconnect attempt
+     */
+    function renewAndReconnect() {
+      if (options.renewToken === false) {
+        log.warn('Access token rejected');
+        giveUp(new Error('Access token rejected by the server'));
+        return;
+      }
+      if (authRenewals >= MAX_AUTH_RENEWALS) {
+        log.error('Server keeps rejecting the access token, giving up');
+        console.log('\x1b[31m[ws] The server rejected your login. Run "anyware login" and try again.\x1b[0m');
+        giveUp(new Error('Access token rejected by the server'));
+        return;
+      }
+      authRenewals++;
+
+      log.info('Access token rejected, renewing it');
+      renewAccessToken().then(
+        () => {
+          if (!isIntentionallyClosed) {
+            connect();
+          }
+        },
+        (error: Error) => {
+          log.error('Failed to renew access token:', error);
+          console.log(`\x1b[31m[ws] ${error.message}\x1b[0m`);
+          giveUp(error);
+        },
+      );
+    }
 
     function connect() {
-      ws = new WebSocket(url);
+      authFailed = false;
+      // Read on every connect to pick up a renewed token
+      ws = new WebSocket(url, {
+        headers: { Authorization: `Bearer ${loadConfig().accessToken}` },
+        // Negotiated with the server; tool results compress well
+        perMessageDeflate: { threshold: DEFLATE_THRESHOLD_BYTES },
+      });
+
+      ws.on('unexpected-response', (_req, res) => {
+        if (res.statusCode === 401) {
+          authFailed = true;
+        } else {
+          log.warn(`Unexpected server response: ${res.statusCode}`);
+          if (!clientResolved) {
+            failToConnect(new Error(`Unexpected server response: ${res.statusCode}`));
+          }
+        }
+        ws.terminate();
+      });
 
     ws.on('open', () => {
         if (reconnectAttempts > 0) {
-          console.log('[ws] Reconnected to session');
+          log.info('Reconnected to session');
         } else {
-      console.log('[ws] Connected to session');
+      log.info('Connected to session');
         }
         reconnectAttempts = 0;
+        authRenewals = 0;
+
+        if (!ws.extensions.includes('permessage-deflate')) {
+          log.info('Server did not enable compression');
+        }
+
+        // Introduce ourselves before anything else; the server may be a different version than last time
+        serverCapabilities = {};
+        handshakeDone = false;
+        const hello: ClientHelloMessage = {
+          type: 'hello',
+          payload: { protocolVersion: PROTOCOL_VERSION, cliVersion: currentVersion, capabilities: CLI_CAPABILITIES },
+        };
+        ws.send(JSON.stringify(hello));
+        // Older servers don't answer
+        helloTimer = setTimeout(finishHandshake, HELLO_TIMEOUT_MS);
 
       // Start ping interval to keep connection alive
         if (pingInterval) clearInterval(pingInterval);
       pingInterval = setInterval(() => {
         if (ws.readyState === WebSocket.OPEN) {
-          ws.send(JSON.stringify({ type: 'ping' }));
+          const ping: PingMessage = { type: 'ping' };
+          ws.send(JSON.stringify(ping));
         }
+        // Retry events the server hasn't acknowledged
+        outbox.resendUnackedSince(Date.now() - ackTimeoutMs);
+        flushOutbox();
       }, 30000);
 
         // Only resolve on first connection
@@ -107,31 +380,86 @@ export function createWSClient(sessionId: string, userId: string, deviceId?: str
       });
 
       ws.on('message', (data) => {
-        try {
-          const message = JSON.parse(data.toString()) as WSMessage;
+        const parsed = parseServerMessage(data.toString());
+        if (!parsed.ok) {
+          log.warn(`Ignoring message from server: ${parsed.error}`);
+          return;
+        }
+        const message = parsed.message;
 
+        switch (message.type) {
           // Handle pong silently
-          if (message.type === 'pong') {
+          case 'pong':
             return;
-          }
 
-          // Forward to handler
-          if (messageHandler && (message.type === 'user_input' || message.type === 'permission_response' || message.type === 'switch')) {
-            messageHandler(message as IncomingMessage);
-          }
-        } catch (e) {
-          console.error('[ws] Failed to parse message:', e);
+          case 'hello':
+            serverCapabilities = message.payload.capabilities;
+            log.info(
+              `Server speaks protocol v${message.payload.protocolVersion}, capabilities: ${
+                Object.keys(serverCapabilities).filter((name) => serverCapabilities[name]).join(', ') || 'none'
+              }`,
+            );
+            if (message.payload.protocolVersion > PROTOCOL_VERSION) {
+              log.warn(`Server protocol v${message.payload.protocolVersion} is newer than ours (v${PROTOCOL_VERSION}), consider updating`);
+            }
+            finishHandshake();
+            return;
+
+          // The server has every event up to seq
+          case 'ack':
+            spool.settle(outbox.ack(message.payload.seq));
+            ackedSeq = Math.max(ackedSeq, message.payload.seq);
+            for (const check of [...ackWaiters]) {
+              check();
+            }
+            return;
+
+          default:
+            // Forward to handler
+            if (messageHandler) {
+              try {
+                messageHandler(message);
+              } catch (e) {
+                log.error(`Failed to handle ${message.type} message:`, e);
+              }
+            }
         }
       });
 
-      ws.on('close', () => {
+      ws.on('close', (code) => {
         if (pingInterval) {
           clearInterval(pingInterval);
           pingInterval = null;
         }
 
+        handshakeDone = false;
+        if (helloTimer) {
+          clearTimeout(helloTimer);
+          helloTimer = null;
+        }
+
+        // Whatever hasn't been confirmed may be lost with the connection
+        spoolPending();
+        for (const check of [...ackWaiters, ...handshakeWaiters]) {
+          check();
+        }
+
         if (isIntentionallyClosed) {
-          console.log('[ws] Disconnected from session');
+          log.info('Disconnected from session');
+          if (closeHandler) {
+            closeHandler();
+          }
+          return;
+        }
+
+        // An expired token won't work any better on the next attempt
+        if (authFailed || code === AUTH_FAILED_CLOSE_CODE) {
+          renewAndReconnect();
+          return;
+        }
+
+        if (options.reconnect === false) {
+          log.warn('Connection lost');
           if (closeHandler) {
             closeHandler();
           }
@@ -142,10 +470,11 @@ export function createWSClient(sessionId: string, userId: string, deviceId?: str
         if (reconnectAttempts < maxReconnects) {
           reconnectAttempts++;
           const delay = Math.min(1000 * reconnectAttempts, 10000); // Cap at 10 seconds
-          console.log(`[ws] Connection lost, reconnecting in ${delay / 1000}s (attempt ${reconnectAttempts}/${maxReconnects})`);
+          log.warn(`Connection lost, reconnecting in ${delay / 1000}s (attempt ${reconnectAttempts}/${maxReconnects})`);
           setTimeout(connect, delay);
         } else {
-          console.log('[ws] Max reconnect attempts reached, giving up');
+          log.error('Max reconnect attempts reached, giving up');
+          console.log(`\x1b[31m[ws] Lost connection to the server after ${maxReconnects} reconnect attempts\x1b[0m`);
           if (closeHandler) {
             closeHandler();
           }
@@ -153,66 +482,68 @@ export function createWSClient(sessionId: string, userId: string, deviceId?: str
       });
 
       ws.on('error', (error) => {
-        console.error('[ws] WebSocket error:', error.message);
-        if (!clientResolved) {
-          reject(error);
+        log.error('WebSocket error:', error.message);
+        // A rejected token is renewed from the close handler
+        if (!clientResolved && !authFailed) {
+          failToConnect(error);
         }
         // Don't reject on reconnect errors - let the close handler trigger reconnect
       });
     }
 
       const client: SessionWSClient = {
-        send: (message: WSMessage) => {
+        send: (message: OutgoingMessage) => {
           if (ws.readyState === WebSocket.OPEN) {
             ws.send(JSON.stringify(message));
           }
         },
 
         sendClaudeEvent: (event: ClaudeEvent, sid: string) => {
-          if (ws.readyState === WebSocket.OPEN) {
-            // Use event's original timestamp if available, otherwise current time
-            const eventWithTs = event as { timestamp?: string };
-            let timestamp = Date.now();
-            if (eventWithTs.timestamp) {
-              const parsed = new Date(eventWithTs.timestamp).getTime();
-              if (!isNaN(parsed)) {
-                timestamp = parsed;
-              }
+          // Use event's original timestamp if available, otherwise current time
+          const eventWithTs = event as { timestamp?: string };
+          let timestamp = Date.now();
+          if (eventWithTs.timestamp) {
+            const parsed = new Date(eventWithTs.timestamp).getTime();
+            if (!isNaN(parsed)) {
+              timestamp = parsed;
             }
-            
-            ws.send(JSON.stringify({
-              type: 'claude_event',
-              payload: {
-                sessionId: sid,
-                event,
-                timestamp,
-              },
-            }));
+          }
+
+          const payload = { sessionId: sid, event, timestamp };
+          // Partial output is superseded by the complete message, so it isn't worth keeping
+          if (event.type === 'stream_event') {
+            sendLive('claude_event', payload);
+          } else {
+            queueEvent('claude_event', payload);
           }
         },
 
         sendThinking: (thinking: boolean) => {
-          if (ws.readyState === WebSocket.OPEN) {
-            ws.send(JSON.stringify({
-              type: 'thinking',
-              payload: {
-                thinking,
-                timestamp: Date.now(),
-              },
-            }));
-          }
+          lastThinking = { thinking, timestamp: Date.now() };
+          sendLive('thinking', lastThinking);
         },
 
         sendModeChange: (mode: 'local' | 'remote') => {
-          if (ws.readyState === WebSocket.OPEN) {
-            ws.send(JSON.stringify({
-              type: 'mode_change',
-              payload: {
-                mode,
-                timestamp: Date.now(),
-              },
-            }));
-          }
+          queueEvent('mode_change', {
+            mode,
+            timestamp: Date.now(),
+          });
+        },
+
+        sendPermissionMode: (mode: string, error?: string) => {
+          queueEvent('permission_mode', {
+            mode,
+            error,
+            timestamp: Date.now(),
+          });
+        },
+
+        sendModel: (model: string | null, error?: string) => {
+          queueEvent('model', {
+            model,
+            error,
+            timestamp: Date.now(),
+          });
         },
 
         // No-op: Device presence is now tracked via WebSocket connect/disconnect
@@ -220,6 +551,30 @@ export function createWSClient(sessionId: string, userId: string, deviceId?: str
         sendPresence: () => {},
         markActivity: () => {},
 
+        replay: (messages) =>
+          waitForHandshake()
+            .then(() =>
+              Promise.all(
+                messages.map(
+                  (message) =>
+                    new Promise<void>((resolveSend, rejectSend) => {
+                      if (ws.readyState !== WebSocket.OPEN) {
+                        rejectSend(new Error('WebSocket is not connected'));
+                        return;
+                      }
+                      ws.send(JSON.stringify(message), (error) => (error ? rejectSend(error) : resolveSend()));
+                    }),
+                ),
+              ),
+            )
+            .then(() => {
+              // Without acks, written is as sure as delivery gets; see Outbox
+              if (serverCapabilities.eventAcks !== true) return;
+              return waitForAck(Math.max(...messages.map((message) => message.seq)));
+            }),
+
+        serverCapabilities: () => serverCapabilities,
+
         onMessage: (handler) => {
           messageHandler = handler;
         },
@@ -233,6 +588,8 @@ export function createWSClient(sessionId: string, userId: string, deviceId?: str
           if (pingInterval) {
             clearInterval(pingInterval);
           }
+          // Don't leave a pending batch behind
+          flushOutbox();
           ws.close();
         },
       };
@@ -0,0 +1,65 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildQuestionAnswers, formatAnswersAsPrompt, getQuestions } from './askUserQuestion.js';
+
+const toolInput = {
+  questions: [
+    { question: 'Which package manager?', options: [{ label: 'npm' }, { label: 'pnpm' }] },
+    { question: 'Which checks?', options: [{ label: 'lint' }, { label: 'test' }, { label: 'build' }], multiSelect: true },
+  ],
+};
+
+describe('getQuestions', () => {
+  it('skips malformed questions', () => {
+    assert.equal(getQuestions({ questions: [...toolInput.questions, { header: 'x' }, null] }).length, 2);
+    assert.deepEqual(getQuestions(null), []);
+    assert.deepEqual(getQuestions({ questions: 'x' }), []);
+  });
+});
+
+describe('buildQuestionAnswers', () => {
+  it('joins multiSelect choices and free text', () => {
+    const result = buildQuestionAnswers(toolInput, [
+      { question: 'Which package manager?', other: ' bun ' },
+      { question: 'Which checks?', selected: ['lint', 'test', 'lint'] },
+    ]);
+    assert.deepEqual(result, { ok: true, answers: { 'Which package manager?': 'bun', 'Which checks?': 'lint, test' } });
+  });
+
+  it('allows only one choice for single-select questions', () => {
+    const result = buildQuestionAnswers(toolInput, [
+      { question: 'Which package manager?', selected: ['npm'], other: 'bun' },
+      { question: 'Which checks?', selected: ['test'] },
+    ]);
+    assert.deepEqual(result, { ok: false, error: 'Only one answer allowed for "Which package manager?"' });
+  });
+
+  it('rejects unknown questions and options', () => {
+    assert.deepEqual(buildQuestionAnswers(toolInput, [{ question: 'Which OS?', selected: ['linux'] }]), {
+      ok: false,
+      error: 'Unknown question "Which OS?"',
+    });
+    assert.deepEqual(buildQuestionAnswers(toolInput, [{ question: 'Which checks?', selected: ['deploy'] }]), {
+      ok: false,
+      error: 'Unknown option "deploy" for "Which checks?"',
+    });
+    assert.deepEqual(buildQuestionAnswers(toolInput, 'npm'), { ok: false, error: 'Answers must be a list' });
+  });
+
+  it('needs an answer for every question', () => {
+    assert.deepEqual(buildQuestionAnswers(toolInput, [{ question: 'Which package manager?', selected: ['npm'] }]), {
+      ok: false,
+      error: 'No answer for "Which checks?"',
+    });
+    assert.deepEqual(buildQuestionAnswers(toolInput, [{ question: 'Which checks?', selected: [], other: '  ' }]), {
+      ok: false,
+      error: 'No answer for "Which checks?"',
+    });
+  });
+});
+
+describe('formatAnswersAsPrompt', () => {
+  it('lists each question with its answer', () => {
+    assert.equal(formatAnswersAsPrompt({ 'Which checks?': 'lint, test' }), 'My answers to your questions:\n- Which checks?\n  lint, test');
+  });
+});
@@ -0,0 +1,105 @@
+/**
+ * AskUserQuestion answers
+ *
+ * The web UI answers Claude's AskUserQuestion tool with the options the user
+ * picked. Claude expects them back in the tool input as an `answers` map from
+ * question text to the chosen label(s).
+ */
+
+export interface AskUserQuestionOption {
+  label: string;
+  description?: string;
+}
+
+export interface AskUserQuestionItem {
+  question: string;
+  header?: string;
+  options: AskUserQuestionOption[];
+  multiSelect?: boolean;
+}
+
+/** One answered question, as sent by the web UI */
+export interface QuestionSelection {
+  /** Text of the question being answered */
+  question: string;
+  /** Labels of the chosen options */
+  selected?: string[];
+  /** Free-text answer given instead of (or alongside) the options */
+  other?: string;
+}
+
+export type QuestionAnswersResult =
+  | { ok: true; answers: Record<string, string> }
+  | { ok: false; error: string };
+
+/**
+ * Get the questions from an AskUserQuestion tool input
+ */
+export function getQuestions(toolInput: unknown): AskUserQuestionItem[] {
+  const inp = (typeof toolInput === 'object' && toolInput !== null ? toolInput : {}) as Record<string, unknown>;
+  if (!Array.isArray(inp.questions)) {
+    return [];
+  }
+  return inp.questions.filter(
+    (q): q is AskUserQuestionItem => typeof q === 'object' && q !== null && typeof (q as AskUserQuestionItem).question === 'string',
+  );
+}
+
+/**
+ * Check the web's selections against the questions and build the answers map
+ * Every question must be answered, with known labels, and single-select
+ * questions with only one choice.
+ */
+export function buildQuestionAnswers(toolInput: unknown, selections: unknown): QuestionAnswersResult {
+  if (!Array.isArray(selections)) {
+    return { ok: false, error: 'Answers must be a list' };
+  }
+
+  const questions = getQuestions(toolInput);
+  const answers: Record<string, string> = {};
+
+  for (const selection of selections as QuestionSelection[]) {
+    if (typeof selection !== 'object' || selection === null || typeof selection.question !== 'string') {
+      return { ok: false, error: 'Each answer must name its question' };
+    }
+
+    const question = questions.find((q) => q.question === selection.question);
+    if (!question) {
+      return { ok: false, error: `Unknown question "${selection.question}"` };
+    }
+
+    const selected = Array.isArray(selection.selected) ? selection.selected : [];
+    const labels = new Set((question.options ?? []).map((o) => o.label));
+    const unknownLabel = selected.find((label) => typeof label !== 'string' || !labels.has(label));
+    if (unknownLabel !== undefined) {
+      return { ok: false, error: `Unknown option "${unknownLabel}" for "${question.question}"` };
+    }
+
+    const other = typeof selection.other === 'string' ? selection.other.trim() : '';
+    const chosen = [...new Set(selected), ...(other ? [other] : [])];
+    if (chosen.length === 0) {
+      return { ok: false, error: `No answer for "${question.question}"` };
+    }
+    if (!question.multiSelect && chosen.length > 1) {
+      return { ok: false, error: `Only one answer allowed for "${question.question}"` };
+    }
+
+    answers[question.question] = chosen.join(', ');
+  }
+
+  const unanswered = questions.find((q) => !(q.question in answers));
+  if (unanswered) {
+    return { ok: false, error: `No answer for "${unanswered.question}"` };
+  }
+
+  return { ok: true, answers };
+}
+
+/**
+ * Write answers as a prompt, for when the question is no longer open in Claude
+ * (it was asked in local mode, or the Claude process has exited)
+ */
+export function formatAnswersAsPrompt(answers: Record<string, string>): string {
+  const lines = Object.entries(answers).map(([question, answer]) => `- ${question}\n  ${answer}`);
+  return `My answers to your questions:\n${lines.join('\n')}`;
+}
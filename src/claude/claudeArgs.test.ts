@@ -0,0 +1,63 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { claudeArgsToQueryOptions, validateClaudeArgs } from './claudeArgs.js';
+
+describe('claudeArgsToQueryOptions', () => {
+  it('maps arguments onto query options', () => {
+    const result = claudeArgsToQueryOptions([
+      '--permission-mode', 'plan',
+      '--allowedTools', 'Read',
+      '--allowed-tools', 'Bash(npm test:*)',
+      '--max-budget-usd', '2.5',
+      '--resume', 'abc',
+      '-c',
+    ]);
+    assert.deepEqual(result, {
+      options: { permissionMode: 'plan', allowedTools: ['Read', 'Bash(npm test:*)'], maxBudgetUsd: 2.5, continue: true },
+      resume: 'abc',
+      ignored: [],
+    });
+  });
+
+  it('passes through arguments the SDK has no option for', () => {
+    assert.deepEqual(claudeArgsToQueryOptions(['--debug', '--agent', 'reviewer']).options, {
+      extraArgs: ['--debug', '--agent', 'reviewer'],
+    });
+  });
+
+  it('ignores an unknown permission mode', () => {
+    const result = claudeArgsToQueryOptions(['--permission-mode', 'yolo']);
+    assert.equal(result.options.permissionMode, undefined);
+    assert.deepEqual(result.ignored, ['--permission-mode', 'yolo']);
+  });
+
+  it('ignores a budget that is not a positive number', () => {
+    assert.deepEqual(claudeArgsToQueryOptions(['--max-budget-usd', '0']).ignored, ['--max-budget-usd', '0']);
+    assert.deepEqual(claudeArgsToQueryOptions(['--max-budget-usd', '-1']).ignored, ['--max-budget-usd', '-1']);
+    assert.deepEqual(claudeArgsToQueryOptions(['--max-budget-usd', 'lots']).ignored, ['--max-budget-usd', 'lots']);
+  });
+
+  it('ignores a value argument given last without its value', () => {
+    const result = claudeArgsToQueryOptions(['--verbose', '--model']);
+    assert.deepEqual(result, { options: {}, resume: undefined, ignored: ['--verbose', '--model'] });
+  });
+
+  it('lets --dangerously-skip-permissions set bypass mode', () => {
+    assert.equal(claudeArgsToQueryOptions(['--dangerously-skip-permissions']).options.permissionMode, 'bypassPermissions');
+  });
+});
+
+describe('validateClaudeArgs', () => {
+  it('rejects unknown arguments and missing values', () => {
+    const result = validateClaudeArgs(['--frobnicate', '--model']);
+    assert.equal(result.valid, false);
+    assert.deepEqual(result.errors, ["Unknown Claude Code argument: '--frobnicate'", "'--model' requires a value"]);
+  });
+
+  it('warns about arguments anyware handles itself', () => {
+    const result = validateClaudeArgs(['--model', 'opus', '--verbose']);
+    assert.equal(result.valid, true);
+    assert.deepEqual(result.validArgs, ['--verbose']);
+    assert.equal(result.warnings.length, 1);
+  });
+});
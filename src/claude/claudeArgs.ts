@@ -3,6 +3,8 @@
  * Defines valid arguments that can be passed through to Claude Code
  */
 
+import { PERMISSION_MODES, type PermissionMode, type QueryOptions } from './sdk/types.js';
+
 // Arguments that take no value (flags)
 export const CLAUDE_FLAG_ARGS = new Set([
   '--debug',
@@ -71,6 +73,36 @@ export const ALL_CLAUDE_ARGS = new Set([
   ...CLAUDE_VALUE_ARGS,
 ]);
 
+// Arguments passed through to Claude unchanged in remote mode.
+// Others without a query option (--output-format, --print, --ide...) clash with the SDK protocol.
+const REMOTE_PASSTHROUGH_ARGS = new Set([
+  '--debug',
+  '-d',
+  '--mcp-debug',
+  '--allow-dangerously-skip-permissions',
+  '--fork-session',
+  '--no-session-persistence',
+  '--strict-mcp-config',
+  '--disable-slash-commands',
+  '--chrome',
+  '--no-chrome',
+  '--json-schema',
+  '--tools',
+  '--agent',
+  '--betas',
+  '--session-id',
+  '--setting-sources',
+  '--plugin-dir',
+]);
+
+export interface RemoteQueryArgs {
+  options: Partial<QueryOptions>;
+  /** Session to resume (--resume) */
+  resume?: string;
+  /** Arguments that have no effect in remote mode */
+  ignored: string[];
+}
+
 export interface ValidationResult {
   valid: boolean;
   errors: string[];
@@ -142,6 +174,109 @@ export function validateClaudeArgs(args: string[], allowHandledArgs = false): Va
   };
 }
 
+/**
+ * Map validated Claude arguments onto query options for remote mode,
+ * so a session behaves the same as when the arguments go to the terminal UI
+ */
+export function claudeArgsToQueryOptions(args: string[]): RemoteQueryArgs {
+  const options: Partial<QueryOptions> = {};
+  const extraArgs: string[] = [];
+  const ignored: string[] = [];
+  let resume: string | undefined;
+
+  const append = <K extends 'allowedTools' | 'disallowedTools' | 'addDirs' | 'mcpConfigs'>(key: K, value: string) => {
+    options[key] = [...(options[key] ?? []), value];
+  };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+
+    if (CLAUDE_FLAG_ARGS.has(arg)) {
+      if (arg === '--continue' || arg === '-c') {
+        options.continue = true;
+      } else if (arg === '--dangerously-skip-permissions') {
+        options.permissionMode = 'bypassPermissions';
+      } else if (REMOTE_PASSTHROUGH_ARGS.has(arg)) {
+        extraArgs.push(arg);
+      } else {
+        ignored.push(arg);
+      }
+      continue;
+    }
+
+    if (!CLAUDE_VALUE_ARGS.has(arg) || i + 1 >= args.length) {
+      // Positional prompt: remote mode takes its prompts from the web
+      ignored.push(arg);
+      continue;
+    }
+
+    const value = args[++i];
+    switch (arg) {
+      case '--allowedTools':
+      case '--allowed-tools':
+        append('allowedTools', value);
+        break;
+      case '--disallowedTools':
+      case '--disallowed-tools':
+        append('disallowedTools', value);
+        break;
+      case '--add-dir':
+        append('addDirs', value);
+        break;
+      case '--mcp-config':
+        append('mcpConfigs', value);
+        break;
+      case '--system-prompt':
+        options.customSystemPrompt = value;
+        break;
+      case '--append-system-prompt':
+        options.appendSystemPrompt = value;
+        break;
+      case '--permission-mode':
+        if (PERMISSION_MODES.includes(value as PermissionMode)) {
+          options.permissionMode = value as PermissionMode;
+        } else {
+          ignored.push(arg, value);
+        }
+        break;
+      case '--model':
+        options.model = value;
+        break;
+      case '--fallback-model':
+        options.fallbackModel = value;
+        break;
+      case '--agents':
+        options.agents = value;
+        break;
+      case '--max-budget-usd': {
+        const amount = Number(value);
+        if (Number.isFinite(amount) && amount > 0) {
+          options.maxBudgetUsd = amount;
+        } else {
+          ignored.push(arg, value);
+        }
+        break;
+      }
+      case '--resume':
+      case '-r':
+        resume = value;
+        break;
+      default:
+        if (REMOTE_PASSTHROUGH_ARGS.has(arg)) {
+          extraArgs.push(arg, value);
+        } else {
+          ignored.push(arg, value);
+        }
+    }
+  }
+
+  if (extraArgs.length > 0) {
+    options.extraArgs = extraArgs;
+  }
+
+  return { options, resume, ignored };
+}
+
 /**
  * Format validation errors for display
  */
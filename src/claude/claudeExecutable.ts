@@ -0,0 +1,167 @@
+/**
+ * Locate the Claude Code executable and check its version
+ *
+ * Lookup order: ANYWARE_CLAUDE_PATH, the claudePath config key, PATH, then
+ * the usual install locations. Both local and remote mode spawn whatever this
+ * resolves to.
+ */
+
+import { spawn } from 'node:child_process';
+import { accessSync, constants, statSync } from 'node:fs';
+import { delimiter, isAbsolute, join, resolve } from 'node:path';
+import { homedir } from 'node:os';
+import { loadConfig } from '../config/config.js';
+import { compareVersions } from '../update/update.js';
+
+// Oldest Claude Code with the stream-json control protocol (can_use_tool, set_model),
+// --include-partial-messages, and the PermissionRequest hook
+export const MIN_CLAUDE_VERSION = '2.0.0';
+
+const ENV_CLAUDE_PATH = 'ANYWARE_CLAUDE_PATH';
+
+const VERSION_CHECK_TIMEOUT_MS = 10_000;
+
+export type ClaudeExecutableSource = 'env' | 'config' | 'path' | 'install-location';
+
+export interface ClaudeExecutable {
+  path: string;
+  source: ClaudeExecutableSource;
+  /** Version reported by `claude --version`, if it could be read */
+  version: string | null;
+}
+
+export class ClaudeExecutableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ClaudeExecutableError';
+  }
+}
+
+let resolved: ClaudeExecutable | null = null;
+
+function isExecutableFile(filePath: string): boolean {
+  try {
+    if (!statSync(filePath).isFile()) return false;
+    if (process.platform !== 'win32') {
+      accessSync(filePath, constants.X_OK);
+    }
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Search the directories in PATH for an executable
+ */
+function findInPath(name: string): string | null {
+  const dirs = (process.env.PATH ?? '').split(delimiter).filter(Boolean);
+  const extensions = process.platform === 'win32'
+    ? ['', ...(process.env.PATHEXT ?? '.EXE;.CMD;.BAT').split(';').map((ext) => ext.toLowerCase())]
+    : [''];
+
+  for (const dir of dirs) {
+    for (const ext of extensions) {
+      const candidate = join(dir, name + ext);
+      if (isExecutableFile(candidate)) {
+        return candidate;
+      }
+    }
+  }
+  return null;
+}
+
+function expandHome(filePath: string): string {
+  return filePath.startsWith('~/') ? join(homedir(), filePath.slice(2)) : filePath;
+}
+
+/**
+ * Find the Claude Code executable, without checking its version
+ * Throws ClaudeExecutableError if there is none, or an override points nowhere
+ */
+export function findClaudeExecutable(): { path: string; source: ClaudeExecutableSource } {
+  // Explicit overrides must point at a real executable; falling back would hide the mistake
+  const overrides: Array<[ClaudeExecutableSource, string | undefined, string]> = [
+    ['env', process.env[ENV_CLAUDE_PATH], ENV_CLAUDE_PATH],
+    ['config', loadConfig().claudePath, 'the claudePath config setting'],
+  ];
+  for (const [source, value, origin] of overrides) {
+    if (!value) continue;
+    const filePath = isAbsolute(expandHome(value)) ? expandHome(value) : findInPath(value) ?? resolve(value);
+    if (!isExecutableFile(filePath)) {
+      throw new ClaudeExecutableError(`Claude Code executable from ${origin} not found or not executable: ${value}`);
+    }
+    return { path: filePath, source };
+  }
+
+  const fromPath = findInPath('claude');
+  if (fromPath) {
+    return { path: fromPath, source: 'path' };
+  }
+
+  const installLocations = [
+    join(homedir(), '.claude', 'local', 'claude'), // Claude Code default install location
+    join(homedir(), '.local', 'bin', 'claude'),
+    join(homedir(), '.npm-global', 'bin', 'claude'),
+    '/usr/local/bin/claude',
+    '/opt/homebrew/bin/claude',
+  ];
+  for (const p of installLocations) {
+    if (isExecutableFile(p)) {
+      return { path: p, source: 'install-location' };
+    }
+  }
+
+  throw new ClaudeExecutableError(
+    `Claude Code not found. Install it (npm install -g @anthropic-ai/claude-code), ` +
+      `or set ${ENV_CLAUDE_PATH} or "anyware config --claude-path <path>" to its location.`,
+  );
+}
+
+/**
+ * Read the version from `claude --version` (e.g. "2.0.14 (Claude Code)")
+ */
+export function getClaudeVersion(claudePath: string): Promise<string | null> {
+  return new Promise((resolve) => {
+    let output = '';
+    const proc = spawn(claudePath, ['--version'], {
+      stdio: ['ignore', 'pipe', 'ignore'],
+      timeout: VERSION_CHECK_TIMEOUT_MS,
+      shell: process.platform === 'win32',
+    });
+    proc.stdout.on('data', (chunk: Buffer) => {
+      output += chunk.toString();
+    });
+    proc.on('close', (code) => {
+      const match = output.match(/(\d+\.\d+\.\d+)/);
+      resolve(code === 0 && match ? match[1] : null);
+    });
+    proc.on('error', () => resolve(null));
+  });
+}
+
+/**
+ * Find Claude Code and make sure it is new enough; call once at startup
+ * The result is cached for getClaudeExecutablePath()
+ */
+export async function resolveClaudeExecutable(): Promise<ClaudeExecutable> {
+  const found = findClaudeExecutable();
+  const version = await getClaudeVersion(found.path);
+
+  if (version && compareVersions(version, MIN_CLAUDE_VERSION) < 0) {
+    throw new ClaudeExecutableError(
+      `Claude Code ${version} at ${found.path} is too old; anyware needs ${MIN_CLAUDE_VERSION} or newer. ` +
+        `Update it with "claude update" (or npm install -g @anthropic-ai/claude-code).`,
+    );
+  }
+
+  resolved = { ...found, version };
+  return resolved;
+}
+
+/**
+ * Path of the Claude Code executable to spawn
+ */
+export function getClaudeExecutablePath(): string {
+  return resolved ? resolved.path : findClaudeExecutable().path;
+}
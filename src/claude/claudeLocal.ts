@@ -3,6 +3,11 @@ import { createInterface } from 'node:readline';
 import { existsSync, mkdirSync } from 'node:fs';
 import { join, resolve } from 'node:path';
 import { homedir } from 'node:os';
+import { getClaudeExecutablePath } from './claudeExecutable.js';
+import { ClaudeProcessError, StderrTail, describeExit } from './processError.js';
+import { createLogger } from '../utils/logger.js';
+
+const log = createLogger('local');
 
 export interface ClaudeLocalOptions {
   abort: AbortSignal;
@@ -10,9 +15,15 @@ export interface ClaudeLocalOptions {
   path: string;
   onSessionFound: (id: string) => void;
   onThinkingChange?: (thinking: boolean) => void;
+  /** Called when Claude crashes or can't be started, with its recent stderr */
+  onProcessError?: (error: ClaudeProcessError) => void;
   claudeArgs?: string[];
   /** Path to temporary settings file with SessionStart hook (required for session tracking) */
   hookSettingsPath: string;
+  /** MCP servers to add to Claude's own, keyed by name */
+  mcpServers?: Record<string, unknown>;
+  /** Tools Claude may use without asking */
+  allowedTools?: string[];
 }
 
 /**
@@ -34,32 +45,10 @@ function claudeCheckSession(sessionId: string, workingDirectory: string): boolea
   return existsSync(sessionFile);
 }
 
-/**
- * Find the claude binary path
- */
-function findClaudePath(): string {
-  // Try common locations
-  const paths = [
-    join(homedir(), '.claude', 'local', 'claude'), // Claude Code default install location
-    '/usr/local/bin/claude',
-    '/opt/homebrew/bin/claude',
-    join(homedir(), '.local', 'bin', 'claude'),
-    join(homedir(), '.npm-global', 'bin', 'claude'),
-  ];
-
-  for (const p of paths) {
-    if (existsSync(p)) {
-      return p;
-    }
-  }
-
-  // Fall back to PATH
-  return 'claude';
-}
-
 /**
  * Spawn Claude Code in local (interactive) mode
- * - Uses inherited stdio so user can interact directly
+ * - Uses inherited stdin/stdout so user can interact directly
+ * - Copies stderr to the terminal while keeping its recent lines for crash reports
  * - Uses fd3 pipe for thinking state tracking (optional)
  */
 export async function claudeLocal(opts: ClaudeLocalOptions): Promise<string | null> {
@@ -92,7 +81,7 @@ export async function claudeLocal(opts: ClaudeLocalOptions): Promise<string | nu
     }
   };
 
-  const claudePath = findClaudePath();
+  const claudePath = getClaudeExecutablePath();
 
   try {
     process.stdin.pause();
@@ -113,13 +102,33 @@ export async function claudeLocal(opts: ClaudeLocalOptions): Promise<string | nu
       // Add hook settings for session tracking (always passed)
       args.push('--settings', opts.hookSettingsPath);
 
+      if (opts.mcpServers && Object.keys(opts.mcpServers).length > 0) {
+        args.push('--mcp-config', JSON.stringify({ mcpServers: opts.mcpServers }));
+      }
+      if (opts.allowedTools && opts.allowedTools.length > 0) {
+        args.push('--allowedTools', ...opts.allowedTools);
+      }
+
       const child = spawn(claudePath, args, {
-        stdio: ['inherit', 'inherit', 'inherit', 'pipe'],
+        stdio: ['inherit', 'inherit', 'pipe', 'pipe'],
         signal: opts.abort,
         cwd: opts.path,
         env: process.env,
       });
 
+      const stderrTail = new StderrTail();
+      child.stderr?.on('data', (data: Buffer) => {
+        process.stderr.write(data);
+        stderrTail.push(data);
+      });
+
+      const reportProcessError = (error: ClaudeProcessError) => {
+        log.error(error.message);
+        if (opts.onProcessError) {
+          opts.onProcessError(error);
+        }
+      };
+
       // Listen to fd3 for thinking state tracking (if available)
       if (child.stdio[3]) {
         const rl = createInterface({
@@ -168,7 +177,7 @@ export async function claudeLocal(opts: ClaudeLocalOptions): Promise<string | nu
         });
 
         rl.on('error', (err) => {
-          console.error('[local] Error reading fd3:', err);
+          log.error('Error reading fd3:', err);
         });
 
         child.on('exit', () => {
@@ -183,10 +192,23 @@ export async function claudeLocal(opts: ClaudeLocalOptions): Promise<string | nu
         // Ignore abort errors - they're expected when switching modes
         if (error.code !== 'ABORT_ERR' && error.name !== 'AbortError') {
           console.error('[local] Spawn error:', error);
+          reportProcessError(
+            new ClaudeProcessError(`Failed to spawn Claude Code process: ${error.message}`, { stderr: stderrTail.getLines() }),
+          );
         }
       });
 
       child.on('exit', (code, signal) => {
+        if (!opts.abort.aborted && (signal || code !== 0)) {
+          reportProcessError(
+            new ClaudeProcessError(`Claude Code process ${describeExit(code, signal)}`, {
+              exitCode: code,
+              signal,
+              stderr: stderrTail.getLines(),
+            }),
+          );
+        }
+
         if (signal === 'SIGTERM' && opts.abort.aborted) {
           resolve();
         } else if (signal) {
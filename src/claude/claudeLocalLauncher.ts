@@ -1,8 +1,10 @@
+import { randomUUID } from 'node:crypto';
 import { claudeLocal } from './claudeLocal.js';
 import { createSessionScanner } from './sessionScanner.js';
 import type { Session } from './session.js';
 import { startHookServer, HookEventType, HookData } from '../hooks/hookServer.js';
 import { generateHookSettingsFile, cleanupHookSettingsFile } from '../hooks/generateHookSettings.js';
+import { startAnywareMcpServer, getAnywareMcpServers, ANYWARE_MCP_TOOLS_RULE } from '../mcp/anywareMcpServer.js';
 
 export type LocalExitReason = 'switch' | 'exit';
 
@@ -11,6 +13,8 @@ export interface LocalLauncherOptions {
   onThinkingChange?: (thinking: boolean) => void;
   /** Called when Claude finishes responding (idle state) */
   onIdle?: () => void;
+  /** Leave already queued messages for later instead of switching to remote for them right away */
+  keepQueued?: boolean;
 }
 
 /**
@@ -31,11 +35,19 @@ export async function claudeLocalLauncher(opts: LocalLauncherOptions): Promise<L
       }
     },
     onHookEvent: (eventType: HookEventType, _sessionId: string, data: HookData) => {
+      // Give permission requests an ID so the web's response can be matched to them
+      let requestId: string | undefined;
+      if (eventType === 'PermissionRequest' && data.tool_name) {
+        requestId = randomUUID();
+        session.registerPermissionRequest(requestId, data.tool_name, data.tool_input);
+      }
+
       // Forward hook events to the WebSocket as claude_event
       // Transform hook data to the expected format
       const claudeEvent = {
         type: eventType,
         hook_data: {
+          request_id: requestId,
           tool_name: data.tool_name,
           tool_input: data.tool_input,
           tool_response: data.tool_response,
@@ -53,6 +65,9 @@ export async function claudeLocalLauncher(opts: LocalLauncherOptions): Promise<L
   // Generate hook settings file for Claude
   const hookSettingsPath = generateHookSettingsFile(hookServer.port);
 
+  // Start MCP server so Claude can reach the remote user through anyware's tools
+  const mcpServer = await startAnywareMcpServer(session);
+
   // Create scanner to watch session file and forward messages to server
   scanner = await createSessionScanner({
     sessionId: session.claudeSessionId,
@@ -125,8 +140,13 @@ export async function claudeLocalLauncher(opts: LocalLauncherOptions): Promise<L
     });
 
     // If there are already messages in the queue, switch to remote immediately
+    // (unless remote mode just gave up on them; the next message from web retries)
     if (session.queue.size() > 0) {
-      return 'switch';
+      if (!opts.keepQueued) {
+        return 'switch';
+      }
+      const count = session.queue.size();
+      console.log(`\x1b[90m${count} queued message${count === 1 ? '' : 's'} will be sent when remote mode resumes.\x1b[0m`);
     }
 
     // Handle session start
@@ -152,9 +172,14 @@ export async function claudeLocalLauncher(opts: LocalLauncherOptions): Promise<L
               onThinkingChange(thinking);
             }
           },
+          onProcessError: (error) => {
+            session.sendProcessError('local', error);
+          },
           abort: processAbortController.signal,
           claudeArgs: session.claudeArgs,
           hookSettingsPath,
+          mcpServers: mcpServer ? getAnywareMcpServers(mcpServer) : undefined,
+          allowedTools: mcpServer ? [ANYWARE_MCP_TOOLS_RULE] : [],
         });
 
         // Consume one-time flags after first spawn
@@ -190,6 +215,9 @@ export async function claudeLocalLauncher(opts: LocalLauncherOptions): Promise<L
     // Cleanup hook server and settings file
     hookServer.stop();
     cleanupHookSettingsFile(hookSettingsPath);
+    if (mcpServer) {
+      mcpServer.stop();
+    }
   }
 
   return exitReason || 'exit';
@@ -3,13 +3,28 @@
  * Messages come from the web via WebSocket
  */
 
-import { query } from './sdk/query.js';
-import type { SDKMessage, QueryOptions, PermissionResult, SDKContentBlock } from './sdk/types.js';
+import { query, type Query } from './sdk/query.js';
+import type {
+  SDKMessage,
+  SDKOutputMessage,
+  SDKUserMessage,
+  QueryOptions,
+  PermissionResult,
+  SDKContentBlock,
+  PermissionMode,
+} from './sdk/types.js';
+import { onInvalidMessage } from './sdk/diagnostics.js';
+import { createLogger } from '../utils/logger.js';
+import { claudeArgsToQueryOptions } from './claudeArgs.js';
+import { ClaudeProcessError } from './processError.js';
 import type { ImageAttachment } from '../utils/messageQueue.js';
 import { join, resolve } from 'node:path';
 import { homedir } from 'node:os';
 import { existsSync } from 'node:fs';
 
+const log = createLogger('remote');
+const sdkLog = createLogger('sdk');
+
 /**
  * Pushable async iterable for messages
  */
@@ -65,17 +80,40 @@ class PushableAsyncIterable<T> implements AsyncIterable<T> {
 
 export type PermissionResponse = 'yes' | 'no' | 'always';
 
+export interface PermissionDecision {
+  response: PermissionResponse;
+  /** Replacement tool input, when the user edited it before approving */
+  updatedInput?: Record<string, unknown>;
+  /** Explanation shown to Claude when the call is denied */
+  message?: string;
+  /** AskUserQuestion answers, keyed by question text */
+  answers?: Record<string, string>;
+}
+
 export interface ClaudeRemoteOptions {
   abort: AbortSignal;
   sessionId: string | null;
   path: string;
-  onMessage: (message: SDKMessage) => void;
+  onMessage: (message: SDKOutputMessage) => void;
   onSessionFound: (id: string) => void;
   onThinkingChange?: (thinking: boolean) => void;
   nextMessage: () => Promise<{ message: string; images?: ImageAttachment[] } | null>;
-  waitForPermission: (toolName: string) => Promise<PermissionResponse>;
-  onPermissionRequest?: (toolName: string, toolInput: unknown) => void;
+  /** The signal aborts when Claude cancels the request */
+  waitForPermission: (toolName: string, toolInput: unknown, requestId: string, signal: AbortSignal) => Promise<PermissionDecision>;
+  onPermissionRequest?: (toolName: string, toolInput: unknown, requestId: string) => void;
+  /** Called with the running query when it starts, and with null when it ends */
+  onQuery?: (query: Query | null) => void;
+  /** Called when Claude crashes or can't be started, with its recent stderr */
+  onProcessError?: (error: ClaudeProcessError) => void;
+  /** Called with the prompt Claude was working on if it crashed before answering, so it can be sent again */
+  returnMessage?: (message: { message: string; images?: ImageAttachment[] }) => void;
+  permissionMode?: PermissionMode;
+  model?: string;
   claudeArgs?: string[];
+  /** MCP servers to add to Claude's own, keyed by name */
+  mcpServers?: Record<string, unknown>;
+  /** Tools Claude may use without asking, in addition to --allowedTools */
+  allowedTools?: string[];
 }
 
 /**
@@ -135,21 +173,16 @@ function claudeCheckSession(sessionId: string, workingDirectory: string): boolea
  * Run Claude in remote mode using the SDK
  */
 export async function claudeRemote(opts: ClaudeRemoteOptions): Promise<string | null> {
+  // Pass-through Claude args apply the same way as in local mode
+  const fromArgs = claudeArgsToQueryOptions(opts.claudeArgs ?? []);
+  if (fromArgs.ignored.length > 0) {
+    console.log(`\x1b[90mIgnoring Claude arguments not supported in remote mode: ${fromArgs.ignored.join(' ')}\x1b[0m`);
+  }
+
   // Determine session to resume
   let startFrom = opts.sessionId;
-
-  // Extract --resume from claudeArgs if present
-  if (!startFrom && opts.claudeArgs) {
-    for (let i = 0; i < opts.claudeArgs.length; i++) {
-      if (opts.claudeArgs[i] === '--resume') {
-        if (i + 1 < opts.claudeArgs.length) {
-          const nextArg = opts.claudeArgs[i + 1];
-          if (!nextArg.startsWith('-') && nextArg.includes('-')) {
-            startFrom = nextArg;
-          }
-        }
-      }
-    }
+  if (!startFrom && fromArgs.resume && fromArgs.resume.includes('-')) {
+    startFrom = fromArgs.resume;
   }
 
   // Validate session exists
@@ -176,33 +209,48 @@ export async function claudeRemote(opts: ClaudeRemoteOptions): Promise<string |
 
   // Build SDK options (resume is passed to runQuery separately)
   const sdkOptions: Omit<QueryOptions, 'resume'> = {
+    ...fromArgs.options,
     cwd: opts.path,
     abort: opts.abort,
-    permissionMode: 'default',
+    permissionMode: opts.permissionMode ?? fromArgs.options.permissionMode ?? 'default',
+    model: opts.model ?? fromArgs.options.model,
+    mcpServers: opts.mcpServers,
+    allowedTools: [...(fromArgs.options.allowedTools ?? []), ...(opts.allowedTools ?? [])],
+    // --continue only applies when there is no specific session to resume
+    continue: !startFrom && fromArgs.options.continue,
+    // Stream text as it is generated, so long answers don't sit invisible until they are complete
+    includePartialMessages: true,
     // Permission callback - notify web UI and wait for response
-    canCallTool: async (toolName: string, input: unknown): Promise<PermissionResult> => {
+    canCallTool: async (toolName: string, input: unknown, { requestId, signal }): Promise<PermissionResult> => {
       // Send permission request to web UI (may be skipped if already always-allowed)
       if (opts.onPermissionRequest) {
-        opts.onPermissionRequest(toolName, input);
+        opts.onPermissionRequest(toolName, input, requestId);
       }
 
-      // Wait for response from web UI (or get auto-approval if always-allowed)
-      const response = await opts.waitForPermission(toolName);
+      // Wait for response from web UI (or get an automatic answer from policy / always-allowed)
+      const decision = await opts.waitForPermission(toolName, input, requestId, signal);
 
-      if (response === 'yes' || response === 'always') {
+      if (decision.response === 'yes' || decision.response === 'always') {
+        const updatedInput = decision.updatedInput ?? (input as Record<string, unknown>);
         return {
           behavior: 'allow',
-          updatedInput: input as Record<string, unknown>,
+          // AskUserQuestion reads the user's choices from its input
+          updatedInput: decision.answers ? { ...updatedInput, answers: decision.answers } : updatedInput,
         };
       } else {
         return {
           behavior: 'deny',
-          message: 'User denied permission',
+          message: decision.message ?? 'User denied permission',
         };
       }
     },
   };
 
+  // Whether Claude has produced any output, i.e. it started successfully
+  let claudeResponded = false;
+  // The prompt most recently sent, until Claude answers it
+  let unanswered: { message: string; images?: ImageAttachment[] } | null = null;
+
   // Helper function to run the query loop
   const runQuery = async (
     sessionToResume: string | undefined,
@@ -212,11 +260,12 @@ export async function claudeRemote(opts: ClaudeRemoteOptions): Promise<string |
     const msgStream = new PushableAsyncIterable<SDKMessage>();
 
     // Push the initial message
-    const initialUserMsg = {
+    const initialUserMsg: SDKUserMessage = {
       type: 'user',
       message: { role: 'user', content: buildContent(initialMessage.message, initialMessage.images) },
     };
     msgStream.push(initialUserMsg);
+    unanswered = initialMessage;
     // Also send to callback so it gets rendered
     opts.onMessage(initialUserMsg);
 
@@ -229,75 +278,122 @@ export async function claudeRemote(opts: ClaudeRemoteOptions): Promise<string |
       prompt: msgStream,
       options,
     });
+    if (opts.onQuery) {
+      opts.onQuery(response);
+    }
 
     updateThinking(true);
 
-    console.error('\x1b[90m[debug] Starting message loop\x1b[0m');
+    log.debug('Starting message loop');
     let messageCount = 0;
 
     for await (const message of response) {
       messageCount++;
-      console.error(`\x1b[90m[debug] Message #${messageCount}: type=${message.type}${message.subtype ? `, subtype=${message.subtype}` : ''}\x1b[0m`);
+      claudeResponded = true;
+      // system/init and the like come before Claude has done anything with the prompt
+      if (message.type === 'assistant' || message.type === 'result') {
+        unanswered = null;
+      }
+      // Partial output arrives a few tokens at a time, too often to log each one
+      if (message.type !== 'stream_event') {
+        const subtype = 'subtype' in message ? `, subtype=${message.subtype}` : '';
+        log.debug(`Message #${messageCount}: type=${message.type}${subtype}`);
+      }
 
       // Forward message to callback
       opts.onMessage(message);
 
-      if (message.type === 'system' && 'subtype' in message && message.subtype === 'init') {
+      if (message.type === 'system' && message.subtype === 'init') {
         updateThinking(true);
 
         // Extract session ID
-        if ('session_id' in message && typeof message.session_id === 'string') {
+        if (message.session_id) {
           opts.onSessionFound(message.session_id);
         }
       }
 
       if (message.type === 'result') {
-        console.error('\x1b[90m[debug] Got result, waiting for next user message...\x1b[0m');
+        log.debug('Got result, waiting for next user message...');
         updateThinking(false);
 
         // Get next message
         const next = await opts.nextMessage();
         if (!next) {
-          console.error('\x1b[90m[debug] No next message, ending stream\x1b[0m');
+          log.debug('No next message, ending stream');
           msgStream.end();
           return sessionToResume ?? null;
         }
 
-        console.error(`\x1b[90m[debug] Got next message: "${next.message.slice(0, 50)}..."\x1b[0m`);
+        log.debug(`Got next message: "${next.message.slice(0, 50)}..."`);
 
         // Push next message (with optional images)
-        const nextUserMsg = {
+        const nextUserMsg: SDKUserMessage = {
           type: 'user',
           message: { role: 'user', content: buildContent(next.message, next.images) },
         };
         msgStream.push(nextUserMsg);
+        unanswered = next;
         // Also send to callback so it gets rendered
         opts.onMessage(nextUserMsg);
       }
     }
 
-    console.error(`\x1b[90m[debug] Message loop ended after ${messageCount} messages\x1b[0m`);
+    log.debug(`Message loop ended after ${messageCount} messages`);
 
     return sessionToResume ?? null;
   };
 
+  // Lines from Claude that couldn't be used are reported rather than lost silently
+  const stopInvalidMessageReports = onInvalidMessage((report) => {
+    const detail = report.detail ? ` (${report.detail})` : '';
+    sdkLog.warn(`Ignored ${report.reason} line from Claude${detail}: ${report.line}`);
+  });
+
+  // Crashes are rethrown so the caller can restart Claude; other errors end the run here
+  const handleFailure = (e: unknown, context: string) => {
+    log.error(`${context}:`, e);
+    if (!(e instanceof ClaudeProcessError)) {
+      console.error(`[remote] ${context}:`, e);
+      return;
+    }
+    if (opts.onProcessError) {
+      opts.onProcessError(e);
+    }
+    if (unanswered && opts.returnMessage) {
+      opts.returnMessage(unanswered);
+    }
+    throw e;
+  };
+
+  // Crashes go back to the caller, which restarts Claude on the same session; starting fresh
+  // instead would drop the conversation, unless Claude doesn't know the session anyway
+  const canStartFresh = (e: unknown) =>
+    !(e instanceof ClaudeProcessError) || e.stderr.some((line) => /no conversation found/i.test(line));
+
   try {
     return await runQuery(startFrom ?? undefined, firstMessage);
   } catch (e) {
-    // If resume failed and we were trying to resume, try starting fresh
-    if (startFrom && !opts.abort.aborted) {
+    if (opts.abort.aborted) {
+      // Stopped on purpose
+    } else if (startFrom && !claudeResponded && canStartFresh(e)) {
+      // Resuming failed before Claude started; the session may be unusable, so start fresh
       console.log(`[remote] Could not resume session ${startFrom}, starting fresh`);
+      log.warn(`Resuming session ${startFrom} failed:`, e);
       try {
         return await runQuery(undefined, firstMessage);
       } catch (e2) {
         if (!opts.abort.aborted) {
-          console.error('[remote] Error starting fresh session:', e2);
+          handleFailure(e2, 'Error starting fresh session');
         }
       }
-    } else if (!opts.abort.aborted) {
-      console.error('[remote] Error:', e);
+    } else {
+      handleFailure(e, 'Error');
     }
   } finally {
+    stopInvalidMessageReports();
+    if (opts.onQuery) {
+      opts.onQuery(null);
+    }
     updateThinking(false);
   }
 
@@ -2,12 +2,26 @@
  * Remote launcher - handles remote mode execution with session management
  */
 
-import { claudeRemote } from './claudeRemote.js';
-import type { Session } from './session.js';
+import { claudeRemote, type PermissionResponse, type PermissionDecision } from './claudeRemote.js';
+import type { Query } from './sdk/query.js';
+import { ClaudeProcessError } from './processError.js';
+import type { Session, PermissionAnswer } from './session.js';
 import { createTerminalRenderer } from './terminalRenderer.js';
+import { loadConfig, MAX_PERMISSION_TIMEOUT_MINUTES } from '../config/config.js';
+import { startAnywareMcpServer, getAnywareMcpServers, ANYWARE_MCP_TOOLS_RULE } from '../mcp/anywareMcpServer.js';
+import type { McpServer } from '../mcp/mcpServer.js';
+import { appendAuditEntry, summarizeToolInput, type AuditDecisionSource } from '../permissions/auditLog.js';
 import * as readline from 'node:readline';
 
-export type RemoteExitReason = 'switch' | 'exit';
+/** 'fallback': Claude kept crashing, continue in local mode */
+export type RemoteExitReason = 'switch' | 'exit' | 'fallback';
+
+// Restarts after a crash, with exponential backoff between them
+const MAX_RESTART_ATTEMPTS = 3;
+const RESTART_BASE_DELAY_MS = 1_000;
+const RESTART_MAX_DELAY_MS = 10_000;
+// Claude running at least this long counts as recovered, resetting the attempt count
+const STABLE_RUN_MS = 60_000;
 
 export interface RemoteLauncherOptions {
   session: Session;
@@ -35,7 +49,96 @@ export async function claudeRemoteLauncher(opts: RemoteLauncherOptions): Promise
     process.stdin.setRawMode(true);
   }
 
+  // Permission requests shown in the terminal that are still waiting for an answer, oldest first
+  const awaitingAnswer: Array<{ requestId: string; toolName: string }> = [];
+
+  // The running Claude query, for control requests (interrupts, permission mode changes etc.)
+  let activeQuery: Query | null = null;
+  // Whether Claude is working on a turn, as opposed to waiting for the next prompt
+  let turnInProgress = false;
+
+  // Stop the current turn but keep Claude running, so it waits for the next prompt
+  const interruptTurn = async (from: 'web' | 'terminal') => {
+    if (!activeQuery || !turnInProgress) {
+      console.log('\x1b[90mNothing to interrupt\x1b[0m');
+      return;
+    }
+    console.log(`\x1b[33m⏹ Interrupting Claude (requested from ${from})...\x1b[0m`);
+    try {
+      await activeQuery.interrupt();
+    } catch (e) {
+      console.log(`\x1b[31mFailed to interrupt Claude: ${e instanceof Error ? e.message : e}\x1b[0m`);
+    }
+  };
+
+  // Switch models for the next turn; the running query is told directly so the conversation carries on
+  const changeModel = async (model: string | null, from: 'web' | 'terminal') => {
+    const label = model ?? 'default';
+    if (activeQuery) {
+      try {
+        await activeQuery.setModel(model ?? undefined);
+      } catch (e) {
+        const error = e instanceof Error ? e.message : String(e);
+        console.log(`\x1b[31mFailed to switch model to ${label}: ${error}\x1b[0m`);
+        session.sendModel(session.model, error);
+        return;
+      }
+    }
+    session.setModel(model);
+    console.log(`\x1b[36mModel: ${label}\x1b[0m \x1b[90m(changed from ${from}, applies from the next turn)\x1b[0m`);
+    session.sendModel(model);
+  };
+
+  // Whether the terminal is reading a model name, so keys go to the prompt instead
+  let modelPromptOpen = false;
+
+  const promptForModel = () => {
+    modelPromptOpen = true;
+    // Drop keys typed earlier that readline is still holding in its line buffer
+    rl.write(null, { ctrl: true, name: 'u' });
+    console.log('');
+    rl.question(`\x1b[36mModel (blank to cancel, "default" to reset):\x1b[0m `, (answer) => {
+      // Readline sees the Enter key before the keypress handler; keep ignoring it until that has run
+      setImmediate(() => {
+        modelPromptOpen = false;
+      });
+      const model = answer.trim();
+      if (!model) {
+        console.log('\x1b[90mModel unchanged\x1b[0m');
+        return;
+      }
+      changeModel(model === 'default' ? null : model, 'terminal');
+    });
+  };
+
   const keypressHandler = (str: string, key: readline.Key) => {
+    // While typing a model name, only Ctrl+C is handled here
+    if (modelPromptOpen && !(key.ctrl && key.name === 'c')) {
+      return;
+    }
+
+    // Answer the oldest pending permission request with y/n/a
+    if (awaitingAnswer.length > 0 && !key.ctrl && (str === 'y' || str === 'n' || str === 'a')) {
+      const { requestId, toolName } = awaitingAnswer[0];
+      const response: PermissionResponse = str === 'y' ? 'yes' : str === 'n' ? 'no' : 'always';
+      if (session.answerPermissionRequest(requestId, { response, answeredBy: 'terminal' })) {
+        console.log(`\x1b[90mAnswered "${response}" for ${toolName} from terminal\x1b[0m`);
+      }
+      return;
+    }
+
+    // Interrupt the current turn on 'i'
+    if (str === 'i' && !key.ctrl) {
+      interruptTurn('terminal');
+      return;
+    }
+
+    // Change the model on 'm'
+    if (str === 'm' && !key.ctrl) {
+      promptForModel();
+      return;
+    }
+
     // Switch to local on Enter, Escape, or 'q'
     if (key.name === 'return' || key.name === 'escape' || str === 'q') {
       if (!exitReason) {
@@ -59,6 +162,8 @@ export async function claudeRemoteLauncher(opts: RemoteLauncherOptions): Promise
   // Create terminal renderer for displaying messages
   const renderer = createTerminalRenderer();
 
+  let mcpServer: McpServer | null = null;
+
   try {
     // Handle switch request from web (user wants to go back to local mode)
     session.onSwitch(() => {
@@ -69,123 +174,382 @@ export async function claudeRemoteLauncher(opts: RemoteLauncherOptions): Promise
       processAbortController.abort();
     });
 
+    // Handle interrupt request from web
+    session.onInterrupt(() => {
+      interruptTurn('web');
+    });
+
+    // Handle model change from web
+    session.onModelChange((model) => {
+      changeModel(model, 'web');
+    });
+
+    // Handle permission mode change from web: apply to the running query, or keep for the next one
+    session.onPermissionModeChange(async (mode) => {
+      if (activeQuery) {
+        try {
+          await activeQuery.setPermissionMode(mode);
+        } catch (e) {
+          const error = e instanceof Error ? e.message : String(e);
+          console.log(`\x1b[31mFailed to switch permission mode to ${mode}: ${error}\x1b[0m`);
+          session.sendPermissionMode(session.permissionMode, error);
+          return;
+        }
+      }
+      session.setPermissionMode(mode);
+      renderer.renderPermissionMode(mode);
+      session.sendPermissionMode(mode);
+    });
+
     // If we have a pending permission response (from local mode) and no messages in queue,
     // queue a "continue" message to trigger Claude to resume.
-    // NOTE: Don't do this if there's already a message in queue - that handles AskUserQuestion
-    // where the user's selection is sent as user_input.
+    // NOTE: Don't do this if there's already a message in queue - that resumes Claude by itself.
     if (session.hasPendingPermissionResponse() && session.queue.size() === 0) {
       console.log('\x1b[90m[remote] Pending permission response detected, queueing "continue" to resume Claude\x1b[0m');
       session.queue.push('continue');
     }
 
-    // Run remote mode
-    console.log('');
-    console.log('\x1b[36m\x1b[1mRemote Mode Active\x1b[0m');
-    console.log('\x1b[90mMessages from web will appear here. Press Enter/q to switch to local, Ctrl+C to exit.\x1b[0m');
-    console.log('');
+    // Pick up any edits to the permission policy files since the last run
+    const policyRuleCount = session.reloadPermissionPolicy();
+
+    // Permission request timeout (0 = wait forever)
+    const config = loadConfig();
+    // Clamped, since config.json may be edited by hand
+    const permissionTimeoutMs =
+      Math.min(Math.max(0, config.permissionTimeoutMinutes ?? 0), MAX_PERMISSION_TIMEOUT_MINUTES) * 60_000;
+    const permissionTimeoutAction = config.permissionTimeoutAction ?? 'deny';
+
+    // Answer a permission request without asking the web UI, if policy or an earlier "always" covers it
+    type AutomaticDecision = {
+      response: PermissionResponse;
+      reason: string;
+      source: 'policy' | 'always-allow';
+      rule: string;
+      message?: string;
+    };
+    const autoDecide = (toolName: string, toolInput: unknown): AutomaticDecision | null => {
+      const decision = session.evaluatePermissionPolicy(toolName, toolInput);
+      if (decision?.action === 'deny') {
+        return {
+          response: 'no',
+          reason: `${decision.source} policy: ${decision.rule}`,
+          source: 'policy',
+          rule: decision.rule,
+          message: `Denied by permission policy: ${decision.rule}`,
+        };
+      }
+      if (decision?.action === 'allow') {
+        return { response: 'yes', reason: `${decision.source} policy: ${decision.rule}`, source: 'policy', rule: decision.rule };
+      }
+      // An "ask" rule always goes to the user, even if the tool was "always allowed" earlier
+      const scope = decision?.action !== 'ask' ? session.findAlwaysAllowedScope(toolName, toolInput) : null;
+      if (scope) {
+        return { response: 'always', reason: `always allowed: ${scope}`, source: 'always-allow', rule: scope };
+      }
+      return null;
+    };
 
-    await claudeRemote({
-      path: session.path,
-      sessionId: session.claudeSessionId,
-      abort: processAbortController.signal,
-      claudeArgs: session.claudeArgs,
-      onMessage: (message) => {
-        // Render message in terminal
-        renderer.render(message);
-
-        // Forward SDK messages to server
-        session.sendClaudeEvent(message);
-      },
-      onSessionFound: (sessionId) => {
-        session.setClaudeSessionId(sessionId);
-      },
-      onThinkingChange: (thinking) => {
-        // Show/hide thinking indicator in terminal
-        if (thinking) {
-          renderer.showThinking();
+    // Turn a user's answer into the decision sent back to Claude
+    const applyAnswer = (toolName: string, toolInput: unknown, answer: PermissionAnswer): PermissionDecision => {
+      if (answer.response === 'no') {
+        renderer.renderPermissionDenied(toolName, answer.message);
+        return { response: 'no', message: answer.message };
+      }
+
+      if (answer.answers) {
+        console.log(`\x1b[32m✓ Question answered from ${answer.answeredBy}\x1b[0m`);
+        return { response: 'yes', answers: answer.answers };
+      }
+
+      if (answer.updatedInput) {
+        // The edited call is a different call, so deny rules get another look at it
+        const decision = session.evaluatePermissionPolicy(toolName, answer.updatedInput);
+        if (decision?.action === 'deny') {
+          console.log(`\x1b[31m✗ Edited ${toolName} input denied (${decision.source} policy: ${decision.rule})\x1b[0m`);
+          return { response: 'no', message: `Denied by permission policy: ${decision.rule}` };
+        }
+        console.log(`\x1b[32m✓ Approved ${toolName} with edited input\x1b[0m`);
+      }
+
+      // If user selected "always", remember it for this session, scoped to the input
+      if (answer.response === 'always') {
+        session.markAlwaysAllowed(toolName, answer.updatedInput ?? toolInput, answer.scope);
+      }
+
+      return { response: answer.response, updatedInput: answer.updatedInput };
+    };
+
+    // Decide a permission request and report how it was decided (null source = left open for later)
+    const decidePermission = async (
+      toolName: string,
+      toolInput: unknown,
+      requestId: string,
+      signal: AbortSignal,
+    ): Promise<{ decision: PermissionDecision; source: AuditDecisionSource | null; rule?: string }> => {
+      // Check permission policy and "always allowed" tools
+      const automatic = autoDecide(toolName, toolInput);
+      if (automatic) {
+        if (automatic.response === 'no') {
+          console.log(`\x1b[31m✗ Auto-denied: ${toolName} (${automatic.reason})\x1b[0m`);
         } else {
-          renderer.clearThinking();
+          console.log(`\x1b[32m✓ Auto-approved: ${toolName} (${automatic.reason})\x1b[0m`);
         }
-        session.sendThinking(thinking);
-        if (onThinkingChange) {
-          onThinkingChange(thinking);
+        return {
+          decision: { response: automatic.response, message: automatic.message },
+          source: automatic.source,
+          rule: automatic.rule,
+        };
+      }
+
+      // Check if there's a pending permission response for this call from local mode switch
+      const pending = session.consumePendingPermissionResponse(toolName, toolInput);
+      if (pending) {
+        console.log(`\x1b[32m✓ Using pending permission response: ${pending.response}\x1b[0m`);
+        return { decision: applyAnswer(toolName, toolInput, pending), source: 'pending', rule: pending.scope };
+      }
+
+      // Nobody answering within the timeout either keeps waiting or falls back to the configured action
+      let timedOut = false;
+      const timeoutTimer = permissionTimeoutMs > 0
+        ? setTimeout(() => {
+            const minutes = permissionTimeoutMs / 60_000;
+            if (permissionTimeoutAction === 'wait') {
+              console.log(`\x1b[33m⏳ Still waiting for approval of ${toolName} after ${minutes} min\x1b[0m`);
+              return;
+            }
+            timedOut = true;
+            session.cancelPermissionRequest(requestId, 'timeout');
+          }, permissionTimeoutMs)
+        : null;
+
+      // Otherwise wait for the web's (or terminal's) response to this request
+      const answer = await session.waitForPermissionResponse(requestId, signal);
+      if (timeoutTimer) {
+        clearTimeout(timeoutTimer);
+      }
+      const awaitingIndex = awaitingAnswer.findIndex((r) => r.requestId === requestId);
+      if (awaitingIndex !== -1) {
+        awaitingAnswer.splice(awaitingIndex, 1);
+      }
+
+      if (!answer) {
+        if (timedOut) {
+          // A question can't be allowed without answers, so it is always declined
+          const response = permissionTimeoutAction === 'allow' && toolName !== 'AskUserQuestion' ? 'yes' : 'no';
+          console.log(`\x1b[33m⏱ No answer for ${toolName}, ${response === 'yes' ? 'allowing' : 'denying'} after timeout\x1b[0m`);
+          const decision: PermissionDecision = response === 'no'
+            ? { response, message: 'Nobody answered the permission request in time' }
+            : { response };
+          return { decision, source: 'timeout' };
         }
-      },
-      nextMessage: async () => {
-        // Wait for next message from queue (includes optional images)
-        const queueMsg = await session.queue.waitForMessage();
-
-        if (!queueMsg) {
-          // Queue was reset or closed
-          return null;
+        // Claude cancelled the request. If the whole process is going away (mode switch),
+        // leave the request open so a later answer is picked up as a pending response.
+        if (!processAbortController.signal.aborted) {
+          session.cancelPermissionRequest(requestId, 'cancelled');
+          console.log(`\x1b[90mPermission request for ${toolName} was cancelled\x1b[0m`);
+          return { decision: { response: 'no' }, source: 'cancelled' };
         }
+        return { decision: { response: 'no' }, source: null };
+      }
 
-        return { message: queueMsg.message, images: queueMsg.images };
-      },
-      waitForPermission: async (toolName: string) => {
-        // Check if tool is already "always allowed"
-        if (session.isToolAlwaysAllowed(toolName)) {
-          console.log(`\x1b[32m✓ Auto-approved: ${toolName} (always allowed)\x1b[0m`);
-          return 'always';
-        }
+      return { decision: applyAnswer(toolName, toolInput, answer), source: answer.answeredBy, rule: answer.scope };
+    };
 
-        // Check if there's a pending permission response from local mode switch
-        const pending = session.consumePendingPermissionResponse();
-        if (pending) {
-          console.log(`\x1b[32m✓ Using pending permission response: ${pending}\x1b[0m`);
-          if (pending === 'always') {
-            session.markToolAlwaysAllowed(toolName);
+    // Run remote mode
+    console.log('');
+    console.log('\x1b[36m\x1b[1mRemote Mode Active\x1b[0m');
+    console.log('\x1b[90mMessages from web will appear here. Press i to interrupt, m to change model, Enter/q to switch to local, Ctrl+C to exit.\x1b[0m');
+    if (policyRuleCount > 0) {
+      console.log(`\x1b[90mLoaded ${policyRuleCount} permission policy rule${policyRuleCount === 1 ? '' : 's'}.\x1b[0m`);
+    }
+    renderer.renderPermissionMode(session.permissionMode);
+    console.log('');
+    session.sendPermissionMode(session.permissionMode);
+
+    // Start MCP server so Claude can reach the remote user through anyware's tools
+    mcpServer = await startAnywareMcpServer(session);
+    const mcpServers = mcpServer ? getAnywareMcpServers(mcpServer) : undefined;
+    const allowedTools = mcpServer ? [ANYWARE_MCP_TOOLS_RULE] : [];
+
+    // Wait before restarting Claude, unless the user switches or exits meanwhile
+    const waitForRestart = (delayMs: number) =>
+      new Promise<void>((resolve) => {
+        const timer = setTimeout(resolve, delayMs);
+        processAbortController.signal.addEventListener(
+          'abort',
+          () => {
+            clearTimeout(timer);
+            resolve();
+          },
+          { once: true },
+        );
+      });
+
+    // Options are read from the session on every start, so a restart picks up the current session, model and mode
+    const runClaude = () =>
+      claudeRemote({
+        path: session.path,
+        sessionId: session.claudeSessionId,
+        abort: processAbortController.signal,
+        claudeArgs: session.claudeArgs,
+        mcpServers,
+        allowedTools,
+        permissionMode: session.permissionMode,
+        model: session.model ?? undefined,
+        onQuery: (query) => {
+          activeQuery = query;
+        },
+        onProcessError: (error) => {
+          session.sendProcessError('remote', error);
+        },
+        returnMessage: (message) => {
+          session.queue.unshift(message);
+        },
+        onMessage: (message) => {
+          // Render message in terminal
+          renderer.render(message);
+
+          // Forward SDK messages to server
+          session.sendClaudeEvent(message);
+        },
+        onSessionFound: (sessionId) => {
+          session.setClaudeSessionId(sessionId);
+        },
+        onThinkingChange: (thinking) => {
+          turnInProgress = thinking;
+          // Show/hide thinking indicator in terminal
+          if (thinking) {
+            renderer.showThinking();
+          } else {
+            renderer.clearThinking();
           }
-          return pending;
-        }
+          session.sendThinking(thinking);
+          if (onThinkingChange) {
+            onThinkingChange(thinking);
+          }
+        },
+        nextMessage: async () => {
+          // Wait for next message from queue (includes optional images)
+          const queueMsg = await session.queue.waitForMessage();
 
-        // Otherwise wait for new response from web
-        const response = await session.waitForPermissionResponse();
+          if (!queueMsg) {
+            // Queue was reset or closed
+            return null;
+          }
 
-        // If user selected "always", remember it for this session
-        if (response === 'always') {
-          session.markToolAlwaysAllowed(toolName);
-        }
+          return { message: queueMsg.message, images: queueMsg.images };
+        },
+        waitForPermission: async (toolName: string, toolInput: unknown, requestId: string, signal: AbortSignal) => {
+          const startedAt = Date.now();
+          const { decision, source, rule } = await decidePermission(toolName, toolInput, requestId, signal);
 
-        return response;
-      },
-      onPermissionRequest: (toolName, toolInput) => {
-        // If tool is already "always allowed", don't show permission request
-        if (session.isToolAlwaysAllowed(toolName)) {
-          return;
-        }
+          // Record every final decision; requests left open by a mode switch are recorded when answered
+          if (source) {
+            appendAuditEntry({
+              timestamp: new Date().toISOString(),
+              serverSessionId: session.serverSessionId,
+              claudeSessionId: session.claudeSessionId,
+              requestId,
+              tool: toolName,
+              input: summarizeToolInput(toolName, toolInput),
+              decision: source === 'cancelled' ? 'cancelled' : decision.response === 'no' ? 'deny' : 'allow',
+              response: source === 'web' || source === 'terminal' || source === 'pending' ? decision.response : undefined,
+              source,
+              rule,
+              edited: decision.updatedInput ? true : undefined,
+              message: decision.message,
+              latencyMs: Date.now() - startedAt,
+            });
+          }
+
+          return decision;
+        },
+        onPermissionRequest: (toolName, toolInput, requestId) => {
+          // If policy or "always allowed" answers the request, don't show it
+          if (autoDecide(toolName, toolInput)) {
+            return;
+          }
+
+          // A pending response from local mode for this exact call answers it without asking again
+          if (session.hasPendingPermissionResponseFor(toolName, toolInput)) {
+            return;
+          }
+
+          // Send permission request event to web UI
+          const permissionEvent = {
+            type: 'PermissionRequest',
+            hook_data: {
+              request_id: requestId,
+              tool_name: toolName,
+              tool_input: toolInput,
+              // Scopes the web UI can offer for "always", narrowest first
+              suggested_scopes: session.suggestAlwaysAllowScopes(toolName, toolInput),
+            },
+          };
+          session.registerPermissionRequest(requestId, toolName, toolInput);
+          session.sendClaudeEvent(permissionEvent);
+
+          // Questions need the web UI to pick options, so y/n/a don't apply
+          if (toolName === 'AskUserQuestion') {
+            renderer.renderQuestions(toolInput);
+            console.log('\x1b[90mWaiting for an answer from web UI...\x1b[0m');
+            return;
+          }
 
-        // IMPORTANT: Clear ALL pending permission responses before requesting new permission
-        // This prevents an OLD response from being consumed by the NEW request
-        // (e.g., user approved Bash 20s ago, now Edit is asking - shouldn't auto-approve Edit)
-        session.clearPendingPermissionResponse(0);
+          // Also render in terminal
+          console.log('');
+          console.log('\x1b[33m⚠️  Permission Required\x1b[0m');
+          console.log(`\x1b[90mTool: ${toolName}\x1b[0m`);
+          console.log('\x1b[90mWaiting for approval from web UI... (or press y = yes, n = no, a = always)\x1b[0m');
+          awaitingAnswer.push({ requestId, toolName });
+        },
+      });
 
-        // Extra safety: AskUserQuestion should never be auto-answered by a stale queued message
-        // (e.g. an old "proceed" sitting in the queue from a previous UI bug).
-        if (toolName === 'AskUserQuestion') {
-          session.queue.reset();
+    // Restart Claude if it crashes, resuming the same session; queued prompts stay in the queue
+    let restartAttempt = 0;
+    while (true) {
+      const startedAt = Date.now();
+      try {
+        await runClaude();
+        break;
+      } catch (e) {
+        if (!(e instanceof ClaudeProcessError) || exitReason || processAbortController.signal.aborted) {
+          throw e;
         }
 
-        // Send permission request event to web UI
-        const permissionEvent = {
-          type: 'PermissionRequest',
-          hook_data: {
-            tool_name: toolName,
-            tool_input: toolInput,
-          },
-        };
-        session.sendClaudeEvent(permissionEvent);
-
-        // Also render in terminal
-        console.log('');
-        console.log('\x1b[33m⚠️  Permission Required\x1b[0m');
-        console.log(`\x1b[90mTool: ${toolName}\x1b[0m`);
-        console.log('\x1b[90mWaiting for approval from web UI...\x1b[0m');
-      },
-    });
+        // A run that lasted a while was a new problem, not the same one repeating
+        if (Date.now() - startedAt >= STABLE_RUN_MS) {
+          restartAttempt = 0;
+        }
+        restartAttempt++;
+        // Requests shown for the crashed process can no longer be answered
+        awaitingAnswer.length = 0;
+
+        if (restartAttempt > MAX_RESTART_ATTEMPTS) {
+          console.log(`\x1b[31m✗ Claude keeps crashing, switching to local mode. Queued messages are kept.\x1b[0m`);
+          session.sendProcessRestart({ action: 'fallback_local', attempt: restartAttempt - 1, maxAttempts: MAX_RESTART_ATTEMPTS });
+          exitReason = 'fallback';
+          break;
+        }
 
-    // Consume one-time flags after spawn
-    session.consumeOneTimeFlags();
+        const delayMs = Math.min(RESTART_BASE_DELAY_MS * 2 ** (restartAttempt - 1), RESTART_MAX_DELAY_MS);
+        console.log(
+          `\x1b[33m↻ Claude crashed (${e.message.split('\n')[0]}), restarting in ${delayMs / 1000}s ` +
+            `(attempt ${restartAttempt}/${MAX_RESTART_ATTEMPTS})\x1b[0m`,
+        );
+        session.sendProcessRestart({ action: 'restart', attempt: restartAttempt, maxAttempts: MAX_RESTART_ATTEMPTS, delayMs });
+        await waitForRestart(delayMs);
+        if (processAbortController.signal.aborted) {
+          break;
+        }
+      } finally {
+        // --resume and --continue are done with once Claude reported its session; restarts resume that.
+        // If it crashed before that, the restart needs them again
+        if (session.claudeSessionId) {
+          session.consumeOneTimeFlags();
+        }
+      }
+    }
 
     // Normal exit if no exit reason set
     if (!exitReason) {
@@ -206,6 +570,13 @@ export async function claudeRemoteLauncher(opts: RemoteLauncherOptions): Promise
 
     // Cleanup handlers
     session.onSwitch(null);
+    session.onPermissionModeChange(null);
+    session.onInterrupt(null);
+    session.onModelChange(null);
+
+    if (mcpServer) {
+      mcpServer.stop();
+    }
   }
 
   return exitReason;
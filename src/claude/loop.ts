@@ -5,6 +5,9 @@
 import { claudeLocalLauncher } from './claudeLocalLauncher.js';
 import { claudeRemoteLauncher } from './claudeRemoteLauncher.js';
 import type { Session } from './session.js';
+import { createLogger } from '../utils/logger.js';
+
+const log = createLogger('loop');
 
 export interface LoopOptions {
   session: Session;
@@ -23,12 +26,17 @@ export interface LoopOptions {
  *
  * Mode switches happen when:
  * - Local → Remote: When a message arrives from web while in local mode
- * - Remote → Local: When user requests switch (e.g., double-space in web UI)
+ * - Remote → Local: When user requests switch (e.g., double-space in web UI),
+ *   or when Claude keeps crashing in remote mode
  */
 export async function loop(opts: LoopOptions): Promise<void> {
   let mode: 'local' | 'remote' = opts.startingMode ?? 'local';
+  // Set when remote mode gave up on a crashing Claude, so queued prompts wait for the user
+  let remoteFailed = false;
 
   while (true) {
+    log.info(`Entering ${mode} mode`);
+
     // Notify mode change
     if (opts.onModeChange) {
       opts.onModeChange(mode);
@@ -42,9 +50,12 @@ export async function loop(opts: LoopOptions): Promise<void> {
         session: opts.session,
         onThinkingChange: opts.onThinkingChange,
         onIdle: opts.onIdle,
+        keepQueued: remoteFailed,
       });
+      remoteFailed = false;
 
       if (reason === 'exit') {
+        log.info('Local mode exited');
         return;
       }
 
@@ -60,9 +71,15 @@ export async function loop(opts: LoopOptions): Promise<void> {
       });
 
       if (reason === 'exit') {
+        log.info('Remote mode exited');
         return;
       }
 
+      if (reason === 'fallback') {
+        log.warn('Claude kept crashing in remote mode, falling back to local mode');
+        remoteFailed = true;
+      }
+
       // Switch to local mode
       mode = 'local';
       continue;
@@ -0,0 +1,73 @@
+/**
+ * Claude process failure diagnostics
+ *
+ * Keeps the last lines Claude wrote to stderr so a crash can be explained,
+ * both in the terminal and to whoever is watching from the web.
+ */
+
+const MAX_STDERR_LINES = 50;
+const MAX_STDERR_LINE_LENGTH = 500;
+
+// Lines of stderr included in the error message itself
+const MESSAGE_STDERR_LINES = 5;
+
+/**
+ * Ring buffer holding the most recent lines of a process's stderr
+ */
+export class StderrTail {
+  private lines: string[] = [];
+  private partial = '';
+
+  constructor(private readonly maxLines: number = MAX_STDERR_LINES) {}
+
+  push(chunk: Buffer | string): void {
+    const parts = (this.partial + chunk.toString()).split(/\r?\n/);
+    this.partial = parts.pop() ?? '';
+    // An endless line without a newline must not grow without bound either
+    if (this.partial.length > MAX_STDERR_LINE_LENGTH) {
+      parts.push(this.partial);
+      this.partial = '';
+    }
+
+    for (const line of parts) {
+      if (!line.trim()) continue;
+      this.lines.push(line.length > MAX_STDERR_LINE_LENGTH ? line.slice(0, MAX_STDERR_LINE_LENGTH) + '...' : line);
+      if (this.lines.length > this.maxLines) {
+        this.lines.shift();
+      }
+    }
+  }
+
+  /**
+   * Recent lines, oldest first, including an unterminated last line
+   */
+  getLines(): string[] {
+    return this.partial.trim() ? [...this.lines, this.partial] : [...this.lines];
+  }
+}
+
+/**
+ * Claude Code exited abnormally or could not be started
+ */
+export class ClaudeProcessError extends Error {
+  readonly exitCode: number | null;
+  readonly signal: NodeJS.Signals | null;
+  readonly stderr: string[];
+
+  constructor(reason: string, details: { exitCode?: number | null; signal?: NodeJS.Signals | null; stderr?: string[] } = {}) {
+    const stderr = details.stderr ?? [];
+    const recent = stderr.slice(-MESSAGE_STDERR_LINES).join('\n');
+    super(recent ? `${reason}: ${recent}` : reason);
+    this.name = 'ClaudeProcessError';
+    this.exitCode = details.exitCode ?? null;
+    this.signal = details.signal ?? null;
+    this.stderr = stderr;
+  }
+}
+
+/**
+ * Describe how a process ended, e.g. "exited with code 1"
+ */
+export function describeExit(exitCode: number | null, signal: NodeJS.Signals | null): string {
+  return signal ? `was killed by ${signal}` : `exited with code ${exitCode}`;
+}
@@ -0,0 +1,48 @@
+/**
+ * Diagnostics for the stream-json protocol
+ *
+ * Lines from Claude Code that are not valid JSON, have an unknown type, or
+ * don't match the expected shape are published on a diagnostics channel,
+ * so they don't go unnoticed. Subscribers decide how to report them.
+ */
+
+import diagnosticsChannel from 'node:diagnostics_channel';
+
+export const INVALID_MESSAGE_CHANNEL = 'anyware:sdk:invalid-message';
+
+export interface InvalidMessageReport {
+  /** The raw line, truncated */
+  line: string;
+  reason: 'invalid-json' | 'unknown-type' | 'invalid-shape';
+  /** Details, e.g. the first schema issue */
+  detail?: string;
+}
+
+const MAX_REPORTED_LINE_LENGTH = 500;
+
+const invalidMessageChannel = diagnosticsChannel.channel(INVALID_MESSAGE_CHANNEL);
+
+/**
+ * Publish a line that could not be used
+ */
+export function reportInvalidMessage(line: string, reason: InvalidMessageReport['reason'], detail?: string): void {
+  if (!invalidMessageChannel.hasSubscribers) return;
+
+  const report: InvalidMessageReport = {
+    line: line.length > MAX_REPORTED_LINE_LENGTH ? line.slice(0, MAX_REPORTED_LINE_LENGTH) + '...' : line,
+    reason,
+    detail,
+  };
+  invalidMessageChannel.publish(report);
+}
+
+/**
+ * Subscribe to invalid line reports; returns a function that unsubscribes
+ */
+export function onInvalidMessage(handler: (report: InvalidMessageReport) => void): () => void {
+  const listener = (message: unknown) => handler(message as InvalidMessageReport);
+  diagnosticsChannel.subscribe(INVALID_MESSAGE_CHANNEL, listener);
+  return () => {
+    diagnosticsChannel.unsubscribe(INVALID_MESSAGE_CHANNEL, listener);
+  };
+}
@@ -5,11 +5,10 @@
 
 import { spawn, type ChildProcessWithoutNullStreams } from 'node:child_process';
 import { createInterface } from 'node:readline';
-import { existsSync } from 'node:fs';
-import { join } from 'node:path';
-import { homedir } from 'node:os';
 import type { Writable } from 'node:stream';
 import { Stream } from './stream.js';
+import { getClaudeExecutablePath } from '../claudeExecutable.js';
+import { ClaudeProcessError, StderrTail, describeExit } from '../processError.js';
 import {
   type QueryOptions,
   type QueryPrompt,
@@ -19,33 +18,22 @@ import {
   type ControlRequest,
   type SDKControlResponse,
   type CanCallToolCallback,
-  type CanUseToolControlRequest,
+  type SDKControlRequestMessage,
+  type SDKOutputMessage,
   type CanUseToolControlResponse,
   type ControlCancelRequest,
   type PermissionResult,
+  type PermissionMode,
+  type SetPermissionModeRequest,
+  type SetModelRequest,
+  SDKStdoutMessageSchema,
+  CanUseToolRequestSchema,
   AbortError,
 } from './types.js';
+import { createLogger } from '../../utils/logger.js';
+import { reportInvalidMessage } from './diagnostics.js';
 
-/**
- * Get default Claude Code path
- */
-function getDefaultClaudeCodePath(): string {
-  const paths = [
-    join(homedir(), '.claude', 'local', 'claude'), // Claude Code default install location
-    '/usr/local/bin/claude',
-    '/opt/homebrew/bin/claude',
-    join(homedir(), '.local', 'bin', 'claude'),
-    join(homedir(), '.npm-global', 'bin', 'claude'),
-  ];
-
-  for (const p of paths) {
-    if (existsSync(p)) {
-      return p;
-    }
-  }
-
-  return 'claude';
-}
+const log = createLogger('sdk');
 
 /**
  * Stream async iterable to stdin
@@ -63,18 +51,18 @@ async function streamToStdin(
       stdin.write(JSON.stringify(message) + '\n');
     }
   } catch (e) {
-    console.error('[query] Error streaming to stdin:', e);
+    log.error('Error streaming to stdin:', e);
   }
 }
 
 /**
  * Query class manages Claude Code process interaction
  */
-export class Query implements AsyncIterableIterator<SDKMessage> {
+export class Query implements AsyncIterableIterator<SDKOutputMessage> {
   private pendingControlResponses = new Map<string, ControlResponseHandler>();
   private cancelControllers = new Map<string, AbortController>();
-  private sdkMessages: AsyncIterableIterator<SDKMessage>;
-  private inputStream = new Stream<SDKMessage>();
+  private sdkMessages: AsyncIterableIterator<SDKOutputMessage>;
+  private inputStream = new Stream<SDKOutputMessage>();
   private canCallTool?: CanCallToolCallback;
 
   constructor(
@@ -98,25 +86,25 @@ export class Query implements AsyncIterableIterator<SDKMessage> {
   /**
    * AsyncIterableIterator implementation
    */
-  next(): Promise<IteratorResult<SDKMessage>> {
+  next(): Promise<IteratorResult<SDKOutputMessage>> {
     return this.sdkMessages.next();
   }
 
-  return(value?: unknown): Promise<IteratorResult<SDKMessage>> {
+  return(value?: unknown): Promise<IteratorResult<SDKOutputMessage>> {
     if (this.sdkMessages.return) {
       return this.sdkMessages.return(value);
     }
     return Promise.resolve({ done: true, value: undefined });
   }
 
-  throw(e: Error): Promise<IteratorResult<SDKMessage>> {
+  throw(e: Error): Promise<IteratorResult<SDKOutputMessage>> {
     if (this.sdkMessages.throw) {
       return this.sdkMessages.throw(e);
     }
     return Promise.reject(e);
   }
 
-  [Symbol.asyncIterator](): AsyncIterableIterator<SDKMessage> {
+  [Symbol.asyncIterator](): AsyncIterableIterator<SDKOutputMessage> {
     return this.sdkMessages;
   }
 
@@ -128,40 +116,58 @@ export class Query implements AsyncIterableIterator<SDKMessage> {
 
     try {
       for await (const line of rl) {
-        if (line.trim()) {
-          try {
-            const message = JSON.parse(line) as SDKMessage | SDKControlResponse;
-
-            if (message.type === 'control_response') {
-              const controlResponse = message as SDKControlResponse;
-              const handler = this.pendingControlResponses.get(controlResponse.response.request_id);
-              if (handler) {
-                handler(controlResponse.response);
-              }
-              continue;
-            } else if (message.type === 'control_request') {
-              const ctrlReq = message as unknown as CanUseToolControlRequest;
-              console.error(`\x1b[90m[debug:sdk] Got control_request: ${ctrlReq.request?.subtype}, request_id=${ctrlReq.request_id}, tool=${ctrlReq.request?.tool_name}\x1b[0m`);
-              console.error(`\x1b[90m[debug:sdk] Full control_request: ${JSON.stringify(ctrlReq)}\x1b[0m`);
-              await this.handleControlRequest(ctrlReq);
-              console.error(`\x1b[90m[debug:sdk] control_request handled\x1b[0m`);
-              continue;
-            } else if (message.type === 'control_cancel_request') {
-              this.handleControlCancelRequest(message as unknown as ControlCancelRequest);
-              continue;
-            }
-
-            this.inputStream.enqueue(message);
-          } catch {
-            // Skip malformed JSON
+        if (!line.trim()) continue;
+
+        let json: unknown;
+        try {
+          json = JSON.parse(line);
+        } catch (e) {
+          reportInvalidMessage(line, 'invalid-json', e instanceof Error ? e.message : undefined);
+          continue;
+        }
+
+        const parsed = SDKStdoutMessageSchema.safeParse(json);
+        if (!parsed.success) {
+          const issue = parsed.error.issues[0];
+          if (issue.code === 'invalid_union_discriminator') {
+            reportInvalidMessage(line, 'unknown-type');
+          } else {
+            reportInvalidMessage(line, 'invalid-shape', `${issue.path.join('.') || 'message'}: ${issue.message}`);
+          }
+          // Pass it on anyway: a newer Claude Code may have changed a message we depend on, like result,
+          // and dropping it would leave the consumer waiting. Control messages can't be handled without their fields
+          const type = (json as { type?: unknown } | null)?.type;
+          if (typeof type === 'string' && !type.startsWith('control_')) {
+            this.inputStream.enqueue(json as SDKOutputMessage);
           }
+          continue;
+        }
+
+        const message = parsed.data;
+        if (message.type === 'control_response') {
+          const handler = this.pendingControlResponses.get(message.response.request_id);
+          if (handler) {
+            handler(message.response);
+          }
+        } else if (message.type === 'control_request') {
+          log.debug(`Got control_request: ${message.request.subtype}, request_id=${message.request_id}`);
+          log.debug(`Full control_request: ${line}`);
+          // Not awaited: a permission prompt can stay open for a long time, and cancels,
+          // other requests and control responses must keep flowing meanwhile
+          this.handleControlRequest(message).catch((error) => {
+            log.error(`Failed to handle control_request ${message.request_id}:`, error);
+          });
+        } else if (message.type === 'control_cancel_request') {
+          this.handleControlCancelRequest(message);
+        } else {
+          this.inputStream.enqueue(message);
         }
       }
-      console.error('\x1b[90m[debug:sdk] readline finished, waiting for process exit\x1b[0m');
+      log.debug('readline finished, waiting for process exit');
       await this.processExitPromise;
-      console.error('\x1b[90m[debug:sdk] process exited\x1b[0m');
+      log.debug('process exited');
     } catch (error) {
-      console.error('\x1b[90m[debug:sdk] error in readMessages:', error, '\x1b[0m');
+      log.error('Error in readMessages:', error);
       this.inputStream.error(error as Error);
     } finally {
       this.inputStream.done();
@@ -173,7 +179,7 @@ export class Query implements AsyncIterableIterator<SDKMessage> {
   /**
    * Async generator for SDK messages
    */
-  private async *readSdkMessages(): AsyncIterableIterator<SDKMessage> {
+  private async *readSdkMessages(): AsyncIterableIterator<SDKOutputMessage> {
     for await (const message of this.inputStream) {
       yield message;
     }
@@ -190,6 +196,30 @@ export class Query implements AsyncIterableIterator<SDKMessage> {
     await this.request({ subtype: 'interrupt' }, this.childStdin);
   }
 
+  /**
+   * Change the permission mode of the running session
+   */
+  async setPermissionMode(mode: PermissionMode): Promise<void> {
+    if (!this.childStdin) {
+      throw new Error('setPermissionMode requires --input-format stream-json');
+    }
+
+    const request: SetPermissionModeRequest = { subtype: 'set_permission_mode', mode };
+    await this.request(request, this.childStdin);
+  }
+
+  /**
+   * Change the model used from the next turn on
+   */
+  async setModel(model: string | undefined): Promise<void> {
+    if (!this.childStdin) {
+      throw new Error('setModel requires --input-format stream-json');
+    }
+
+    const request: SetModelRequest = { subtype: 'set_model', model };
+    await this.request(request, this.childStdin);
+  }
+
   /**
    * Send control request to Claude process
    */
@@ -217,25 +247,29 @@ export class Query implements AsyncIterableIterator<SDKMessage> {
   /**
    * Handle incoming control requests for tool permissions
    */
-  private async handleControlRequest(request: CanUseToolControlRequest): Promise<void> {
+  private async handleControlRequest(request: SDKControlRequestMessage): Promise<void> {
     if (!this.childStdin) {
-      console.error('\x1b[90m[debug:sdk] handleControlRequest: no childStdin\x1b[0m');
+      log.debug('handleControlRequest: no childStdin');
       return;
     }
 
-    const toolName = request.request?.tool_name || 'unknown';
+    const toolName = String(request.request.tool_name ?? 'unknown');
     const requestId = request.request_id;
-    const toolInput = request.request?.input;
-    console.error(`\x1b[90m[debug:sdk] handleControlRequest: tool=${toolName}, requestId=${requestId}\x1b[0m`);
-    console.error(`\x1b[90m[debug:sdk] handleControlRequest: input=${JSON.stringify(toolInput)}\x1b[0m`);
-    console.error(`\x1b[90m[debug:sdk] handleControlRequest: waiting for permission...\x1b[0m`);
+    const toolInput = request.request.input;
+    log.debug(`handleControlRequest: tool=${toolName}, requestId=${requestId}`);
+    log.debug(`handleControlRequest: input=${JSON.stringify(toolInput)}`);
+    log.debug(`handleControlRequest: waiting for permission...`);
 
     const controller = new AbortController();
     this.cancelControllers.set(request.request_id, controller);
 
     try {
       const response = await this.processControlRequest(request, controller.signal);
-      console.error(`\x1b[90m[debug:sdk] handleControlRequest: got permission response: ${response.behavior}\x1b[0m`);
+      // Claude cancelled the request and no longer expects a response
+      if (controller.signal.aborted) {
+        return;
+      }
+      log.debug(`handleControlRequest: got permission response: ${response.behavior}`);
       const controlResponse: CanUseToolControlResponse = {
         type: 'control_response',
         response: {
@@ -245,11 +279,14 @@ export class Query implements AsyncIterableIterator<SDKMessage> {
         },
       };
       const responseJson = JSON.stringify(controlResponse);
-      console.error(`\x1b[90m[debug:sdk] handleControlRequest: sending response: ${responseJson}\x1b[0m`);
+      log.debug(`handleControlRequest: sending response: ${responseJson}`);
       this.childStdin.write(responseJson + '\n');
-      console.error(`\x1b[90m[debug:sdk] handleControlRequest: sent response to claude\x1b[0m`);
+      log.debug(`handleControlRequest: sent response to claude`);
     } catch (error) {
-      console.error(`\x1b[90m[debug:sdk] handleControlRequest error: ${error}\x1b[0m`);
+      log.error(`handleControlRequest error: ${error}`);
+      if (controller.signal.aborted) {
+        return;
+      }
       const controlErrorResponse: CanUseToolControlResponse = {
         type: 'control_response',
         response: {
@@ -279,14 +316,21 @@ export class Query implements AsyncIterableIterator<SDKMessage> {
    * Process control requests based on subtype
    */
   private async processControlRequest(
-    request: CanUseToolControlRequest,
+    request: SDKControlRequestMessage,
     signal: AbortSignal
   ): Promise<PermissionResult> {
     if (request.request.subtype === 'can_use_tool') {
       if (!this.canCallTool) {
         throw new Error('canCallTool callback is not provided.');
       }
-      return this.canCallTool(request.request.tool_name, request.request.input, { signal });
+      const parsed = CanUseToolRequestSchema.safeParse(request.request);
+      if (!parsed.success) {
+        throw new Error(`Invalid can_use_tool request: ${parsed.error.issues[0].message}`);
+      }
+      return this.canCallTool(parsed.data.tool_name, parsed.data.input, {
+        signal,
+        requestId: request.request_id,
+      });
     }
 
     throw new Error('Unsupported control request subtype: ' + request.request.subtype);
@@ -322,11 +366,17 @@ export function query(config: { prompt: QueryPrompt; options?: QueryOptions }):
       resume,
       model,
       fallbackModel,
+      addDirs = [],
+      agents,
+      maxBudgetUsd,
+      mcpConfigs = [],
+      extraArgs = [],
+      includePartialMessages,
       canCallTool,
     } = {},
   } = config;
 
-  const pathToClaudeCodeExecutable = getDefaultClaudeCodePath();
+  const pathToClaudeCodeExecutable = getClaudeExecutablePath();
 
   // Build command arguments
   const args = ['--output-format', 'stream-json', '--verbose'];
@@ -345,9 +395,15 @@ export function query(config: { prompt: QueryPrompt; options?: QueryOptions }):
   if (resume) args.push('--resume', resume);
   if (allowedTools.length > 0) args.push('--allowedTools', allowedTools.join(','));
   if (disallowedTools.length > 0) args.push('--disallowedTools', disallowedTools.join(','));
+  const mcpConfigArgs = [...mcpConfigs];
   if (mcpServers && Object.keys(mcpServers).length > 0) {
-    args.push('--mcp-config', JSON.stringify({ mcpServers }));
+    mcpConfigArgs.push(JSON.stringify({ mcpServers }));
   }
+  if (mcpConfigArgs.length > 0) args.push('--mcp-config', ...mcpConfigArgs);
+  if (addDirs.length > 0) args.push('--add-dir', ...addDirs);
+  if (agents) args.push('--agents', agents);
+  if (maxBudgetUsd !== undefined) args.push('--max-budget-usd', maxBudgetUsd.toString());
+  if (includePartialMessages) args.push('--include-partial-messages');
   if (permissionMode) args.push('--permission-mode', permissionMode);
   if (fallbackModel) {
     if (model && fallbackModel === model) {
@@ -355,6 +411,7 @@ export function query(config: { prompt: QueryPrompt; options?: QueryOptions }):
     }
     args.push('--fallback-model', fallbackModel);
   }
+  args.push(...extraArgs);
 
   // Handle prompt input
   if (typeof prompt === 'string') {
@@ -380,14 +437,11 @@ export function query(config: { prompt: QueryPrompt; options?: QueryOptions }):
     childStdin = child.stdin;
   }
 
-  // Capture stderr for error reporting
-  let stderrBuffer = '';
+  // Keep recent stderr for error reporting
+  const stderrTail = new StderrTail();
   child.stderr.on('data', (data) => {
-    const text = data.toString();
-    stderrBuffer += text;
-    if (process.env.DEBUG) {
-      console.error('[query] stderr:', text);
-    }
+    stderrTail.push(data);
+    log.debug('Claude stderr: %s', data.toString().trimEnd());
   });
 
   // Setup cleanup
@@ -402,15 +456,22 @@ export function query(config: { prompt: QueryPrompt; options?: QueryOptions }):
 
   // Handle process exit
   const processExitPromise = new Promise<void>((resolve) => {
-    child.on('close', (code) => {
-      if (config.options?.abort?.aborted) {
+    child.on('close', (code, signal) => {
+      const aborted = config.options?.abort?.aborted;
+      if (aborted) {
         queryInstance.setError(new AbortError('Claude Code process aborted by user'));
       }
       if (code !== 0) {
-        const errorMsg = stderrBuffer.trim()
-          ? `Claude Code process exited with code ${code}: ${stderrBuffer.trim()}`
-          : `Claude Code process exited with code ${code}`;
-        queryInstance.setError(new Error(errorMsg));
+        // Being killed for an abort is expected, not a crash
+        if (!aborted) {
+          const error = new ClaudeProcessError(`Claude Code process ${describeExit(code, signal)}`, {
+            exitCode: code,
+            signal,
+            stderr: stderrTail.getLines(),
+          });
+          log.error(error.message);
+          queryInstance.setError(error);
+        }
       } else {
         resolve();
       }
@@ -425,7 +486,9 @@ export function query(config: { prompt: QueryPrompt; options?: QueryOptions }):
     if (config.options?.abort?.aborted) {
       queryInstance.setError(new AbortError('Claude Code process aborted by user'));
     } else {
-      queryInstance.setError(new Error(`Failed to spawn Claude Code process: ${error.message}`));
+      queryInstance.setError(
+        new ClaudeProcessError(`Failed to spawn Claude Code process: ${error.message}`, { stderr: stderrTail.getLines() }),
+      );
     }
   });
 
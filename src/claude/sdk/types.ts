@@ -2,26 +2,28 @@
  * Type definitions for Claude Code SDK integration
  */
 
+import { z } from 'zod';
+
 export interface SDKMessage {
   type: string;
   [key: string]: unknown;
 }
 
 // Image content block for Claude SDK
-export interface SDKImageContent {
+export type SDKImageContent = {
   type: 'image';
   source: {
     type: 'base64';
     media_type: string;
     data: string;
   };
-}
+};
 
 // Text content block for Claude SDK
-export interface SDKTextContent {
+export type SDKTextContent = {
   type: 'text';
   text: string;
-}
+};
 
 // Content block types
 export type SDKContentBlock = SDKTextContent | SDKImageContent | {
@@ -32,75 +34,182 @@ export type SDKContentBlock = SDKTextContent | SDKImageContent | {
   [key: string]: unknown;
 };
 
-export interface SDKUserMessage extends SDKMessage {
-  type: 'user';
-  parent_tool_use_id?: string;
-  message: {
-    role: 'user';
-    content: string | SDKContentBlock[];
-  };
-}
+/*
+ * Messages Claude Code writes to stdout in stream-json mode.
+ * Schemas check the fields anyware relies on and let everything else through,
+ * so newer Claude Code versions that add fields keep working.
+ */
 
-export interface SDKAssistantMessage extends SDKMessage {
-  type: 'assistant';
-  parent_tool_use_id?: string;
-  message: {
-    role: 'assistant';
-    content: Array<{
-      type: string;
-      text?: string;
-      id?: string;
-      name?: string;
-      input?: unknown;
-      [key: string]: unknown;
-    }>;
-  };
-}
+export const SDKOutputContentBlockSchema = z
+  .object({
+    type: z.string(),
+    text: z.string().optional(),
+    id: z.string().optional(),
+    name: z.string().optional(),
+    input: z.unknown().optional(),
+    tool_use_id: z.string().optional(),
+    content: z.unknown().optional(),
+  })
+  .passthrough();
 
-export interface SDKSystemMessage extends SDKMessage {
-  type: 'system';
-  subtype: string;
-  session_id?: string;
-  model?: string;
-  cwd?: string;
-  tools?: string[];
-  slash_commands?: string[];
-}
+export type SDKOutputContentBlock = z.infer<typeof SDKOutputContentBlockSchema>;
 
-export interface SDKResultMessage extends SDKMessage {
-  type: 'result';
-  subtype: 'success' | 'error_max_turns' | 'error_during_execution';
-  result?: string;
-  num_turns: number;
-  usage?: {
-    input_tokens: number;
-    output_tokens: number;
-    cache_read_input_tokens?: number;
-    cache_creation_input_tokens?: number;
-  };
-  total_cost_usd: number;
-  duration_ms: number;
-  duration_api_ms: number;
-  is_error: boolean;
-  session_id: string;
-}
+export const SDKSystemMessageSchema = z
+  .object({
+    type: z.literal('system'),
+    subtype: z.string(),
+    session_id: z.string().optional(),
+    model: z.string().optional(),
+    cwd: z.string().optional(),
+    tools: z.array(z.string()).optional(),
+    slash_commands: z.array(z.string()).optional(),
+    permissionMode: z.string().optional(),
+  })
+  .passthrough();
 
-export interface SDKControlResponse extends SDKMessage {
-  type: 'control_response';
-  response: {
-    request_id: string;
-    subtype: 'success' | 'error';
-    error?: string;
-  };
-}
+export type SDKSystemMessage = z.infer<typeof SDKSystemMessageSchema>;
 
-export interface SDKLog extends SDKMessage {
-  type: 'log';
-  log: {
-    level: 'debug' | 'info' | 'warn' | 'error';
-    message: string;
-  };
-}
+export const SDKUserMessageSchema = z
+  .object({
+    type: z.literal('user'),
+    parent_tool_use_id: z.string().nullish(),
+    message: z
+      .object({
+        role: z.literal('user'),
+        content: z.union([z.string(), z.array(SDKOutputContentBlockSchema)]),
+      })
+      .passthrough(),
+  })
+  .passthrough();
+
+export type SDKUserMessage = z.infer<typeof SDKUserMessageSchema>;
+
+export const SDKAssistantMessageSchema = z
+  .object({
+    type: z.literal('assistant'),
+    parent_tool_use_id: z.string().nullish(),
+    message: z
+      .object({
+        id: z.string().optional(),
+        role: z.literal('assistant'),
+        content: z.array(SDKOutputContentBlockSchema),
+      })
+      .passthrough(),
+  })
+  .passthrough();
+
+export type SDKAssistantMessage = z.infer<typeof SDKAssistantMessageSchema>;
+
+export const SDKResultMessageSchema = z
+  .object({
+    type: z.literal('result'),
+    // success, error_max_turns, error_during_execution, error_max_budget_usd...
+    subtype: z.string(),
+    result: z.string().optional(),
+    num_turns: z.number().optional(),
+    usage: z
+      .object({
+        input_tokens: z.number(),
+        output_tokens: z.number(),
+        cache_read_input_tokens: z.number().optional(),
+        cache_creation_input_tokens: z.number().optional(),
+      })
+      .passthrough()
+      .optional(),
+    total_cost_usd: z.number().optional(),
+    duration_ms: z.number().optional(),
+    duration_api_ms: z.number().optional(),
+    is_error: z.boolean().optional(),
+    session_id: z.string().optional(),
+  })
+  .passthrough();
+
+export type SDKResultMessage = z.infer<typeof SDKResultMessageSchema>;
+
+/**
+ * Partial assistant output (--include-partial-messages)
+ * Wraps a raw Messages API streaming event; the whole assistant message still follows.
+ */
+export const SDKStreamEventSchema = z
+  .object({
+    type: z.literal('stream_event'),
+    event: z
+      .object({
+        type: z.string(),
+        index: z.number().optional(),
+        message: z.object({ id: z.string().optional() }).passthrough().optional(),
+        content_block: z.object({ type: z.string() }).passthrough().optional(),
+        delta: z.object({ type: z.string(), text: z.string().optional() }).passthrough().optional(),
+      })
+      .passthrough(),
+    parent_tool_use_id: z.string().nullish(),
+    session_id: z.string().optional(),
+  })
+  .passthrough();
+
+export type SDKStreamEvent = z.infer<typeof SDKStreamEventSchema>;
+
+export const SDKLogSchema = z
+  .object({
+    type: z.literal('log'),
+    log: z.object({
+      level: z.enum(['debug', 'info', 'warn', 'error']),
+      message: z.string(),
+    }),
+  })
+  .passthrough();
+
+export type SDKLog = z.infer<typeof SDKLogSchema>;
+
+export const SDKControlResponseSchema = z.object({
+  type: z.literal('control_response'),
+  response: z
+    .object({
+      request_id: z.string(),
+      subtype: z.enum(['success', 'error']),
+      error: z.string().optional(),
+    })
+    .passthrough(),
+});
+
+export type SDKControlResponse = z.infer<typeof SDKControlResponseSchema>;
+
+export const SDKControlRequestMessageSchema = z.object({
+  type: z.literal('control_request'),
+  request_id: z.string(),
+  request: z.object({ subtype: z.string() }).passthrough(),
+});
+
+export type SDKControlRequestMessage = z.infer<typeof SDKControlRequestMessageSchema>;
+
+export const ControlCancelRequestSchema = z.object({
+  type: z.literal('control_cancel_request'),
+  request_id: z.string(),
+});
+
+export type ControlCancelRequest = z.infer<typeof ControlCancelRequestSchema>;
+
+/** Every kind of line Claude Code writes in stream-json mode */
+export const SDKStdoutMessageSchema = z.discriminatedUnion('type', [
+  SDKSystemMessageSchema,
+  SDKUserMessageSchema,
+  SDKAssistantMessageSchema,
+  SDKResultMessageSchema,
+  SDKStreamEventSchema,
+  SDKLogSchema,
+  SDKControlResponseSchema,
+  SDKControlRequestMessageSchema,
+  ControlCancelRequestSchema,
+]);
+
+/** Messages a Query yields; control messages are handled inside the Query */
+export type SDKOutputMessage =
+  | SDKSystemMessage
+  | SDKUserMessage
+  | SDKAssistantMessage
+  | SDKResultMessage
+  | SDKStreamEvent
+  | SDKLog;
 
 /**
  * Control request types
@@ -113,18 +222,27 @@ export interface InterruptRequest extends ControlRequest {
   subtype: 'interrupt';
 }
 
-export interface CanUseToolRequest extends ControlRequest {
-  subtype: 'can_use_tool';
-  tool_name: string;
-  input: unknown;
+export interface SetPermissionModeRequest extends ControlRequest {
+  subtype: 'set_permission_mode';
+  mode: PermissionMode;
 }
 
-export interface CanUseToolControlRequest {
-  type: 'control_request';
-  request_id: string;
-  request: CanUseToolRequest;
+export interface SetModelRequest extends ControlRequest {
+  subtype: 'set_model';
+  /** Omitted to go back to the default model */
+  model?: string;
 }
 
+export const CanUseToolRequestSchema = z
+  .object({
+    subtype: z.literal('can_use_tool'),
+    tool_name: z.string(),
+    input: z.unknown(),
+  })
+  .passthrough();
+
+export type CanUseToolRequest = z.infer<typeof CanUseToolRequestSchema>;
+
 export interface CanUseToolControlResponse {
   type: 'control_response';
   response: {
@@ -135,11 +253,6 @@ export interface CanUseToolControlResponse {
   };
 }
 
-export interface ControlCancelRequest {
-  type: 'control_cancel_request';
-  request_id: string;
-}
-
 export interface SDKControlRequest {
   request_id: string;
   type: 'control_request';
@@ -163,9 +276,23 @@ export type PermissionResult =
  * Callback function for tool permission checks
  */
 export interface CanCallToolCallback {
-  (toolName: string, input: unknown, options: { signal: AbortSignal }): Promise<PermissionResult>;
+  (toolName: string, input: unknown, options: { signal: AbortSignal; requestId: string }): Promise<PermissionResult>;
 }
 
+/**
+ * Permission modes accepted by Claude Code's --permission-mode
+ */
+export type PermissionMode = 'default' | 'acceptEdits' | 'bypassPermissions' | 'plan' | 'dontAsk' | 'delegate';
+
+export const PERMISSION_MODES: readonly PermissionMode[] = [
+  'default',
+  'acceptEdits',
+  'bypassPermissions',
+  'plan',
+  'dontAsk',
+  'delegate',
+];
+
 /**
  * Query options
  */
@@ -178,11 +305,22 @@ export interface QueryOptions {
   disallowedTools?: string[];
   maxTurns?: number;
   mcpServers?: Record<string, unknown>;
-  permissionMode?: 'default' | 'acceptEdits' | 'bypassPermissions' | 'plan';
+  permissionMode?: PermissionMode;
   continue?: boolean;
   resume?: string;
   model?: string;
   fallbackModel?: string;
+  /** Extra directories Claude may access (--add-dir) */
+  addDirs?: string[];
+  /** Custom agents as a JSON string (--agents) */
+  agents?: string;
+  maxBudgetUsd?: number;
+  /** MCP config files or JSON strings, passed through as given (--mcp-config) */
+  mcpConfigs?: string[];
+  /** Other Claude Code arguments, passed through unchanged */
+  extraArgs?: string[];
+  /** Emit stream_event messages with partial assistant output */
+  includePartialMessages?: boolean;
   canCallTool?: CanCallToolCallback;
 }
 
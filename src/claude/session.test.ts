@@ -0,0 +1,37 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { Session } from './session.js';
+
+function sessionWithPendingAnswer(): Session {
+  const session = new Session({
+    serverSessionId: 'server-session',
+    userId: 'user',
+    path: mkdtempSync(join(tmpdir(), 'anyware-session-')),
+  });
+  // Answered while nobody was waiting, as in local mode
+  session.registerPermissionRequest('req-1', 'Bash', { command: 'npm test' });
+  assert.equal(session.answerPermissionRequest('req-1', { response: 'yes', answeredBy: 'web' }), true);
+  return session;
+}
+
+describe('pending permission responses', () => {
+  it('match the re-issued tool call and are consumed once', () => {
+    const session = sessionWithPendingAnswer();
+    assert.equal(session.hasPendingPermissionResponseFor('Bash', { command: 'npm run lint' }), false);
+    assert.equal(session.hasPendingPermissionResponseFor('Bash', { command: 'npm test' }), true);
+    assert.equal(session.consumePendingPermissionResponse('Bash', { command: 'npm test' })?.response, 'yes');
+    assert.equal(session.hasPendingPermissionResponse(), false);
+  });
+
+  it('are dropped once stale, so the request is shown again', (t) => {
+    const session = sessionWithPendingAnswer();
+    const now = Date.now();
+    t.mock.method(Date, 'now', () => now + 60_000);
+    assert.equal(session.hasPendingPermissionResponseFor('Bash', { command: 'npm test' }), false);
+    assert.equal(session.hasPendingPermissionResponse(), false);
+    assert.equal(session.consumePendingPermissionResponse('Bash', { command: 'npm test' }), null);
+  });
+});
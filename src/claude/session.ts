@@ -2,8 +2,20 @@
  * Session class - manages session state and server communication
  */
 
-import { createWSClient, type SessionWSClient, type IncomingMessage } from '../api/wsClient.js';
+import { randomUUID } from 'node:crypto';
+import { createWSClient, type SessionWSClient } from '../api/wsClient.js';
+import type { IncomingMessage } from '../api/protocol.js';
 import { MessageQueue } from '../utils/messageQueue.js';
+import { PERMISSION_MODES, type PermissionMode } from './sdk/types.js';
+import { buildQuestionAnswers, formatAnswersAsPrompt } from './askUserQuestion.js';
+import { claudeArgsToQueryOptions } from './claudeArgs.js';
+import { PermissionPolicy, type PolicyDecision } from '../permissions/policy.js';
+import { validateUpdatedInput } from '../permissions/toolInputSchemas.js';
+import { parseScopeForToolCall, ruleMatches, suggestScopes, type PermissionRule } from '../permissions/rules.js';
+import { createLogger } from '../utils/logger.js';
+import type { ClaudeProcessError } from './processError.js';
+
+const log = createLogger('session');
 
 export interface SessionOptions {
   serverSessionId: string;
@@ -15,11 +27,45 @@ export interface SessionOptions {
 
 export type PermissionResponse = 'yes' | 'no' | 'always';
 
-type PendingPermissionResponse = {
+export interface PermissionAnswer {
   response: PermissionResponse;
+  /** Rule the user chose for an "always" answer, e.g. "Bash(npm test:*)" */
+  scope?: string;
+  /** Tool input edited by the user before approving */
+  updatedInput?: Record<string, unknown>;
+  /** Feedback for Claude explaining a "no" */
+  message?: string;
+  /** AskUserQuestion answers, keyed by question text */
+  answers?: Record<string, string>;
+  /** Where the answer came from */
+  answeredBy: 'web' | 'terminal';
+}
+
+type OutstandingPermissionRequest = {
+  toolName: string;
+  toolInput: unknown;
+  requestedAt: number; // ms since epoch
+};
+
+type PendingPermissionResponse = PermissionAnswer & {
+  requestId: string;
+  toolName: string;
+  toolInput: unknown;
   receivedAt: number; // ms since epoch
 };
 
+// Outstanding requests older than this can no longer be answered
+const PERMISSION_REQUEST_TTL_MS = 60 * 60 * 1000;
+
+// Longest denial feedback passed on to Claude
+const MAX_DENY_MESSAGE_LENGTH = 2000;
+
+// Tools Claude runs without asking in acceptEdits mode
+const ACCEPT_EDITS_TOOLS = ['Edit', 'MultiEdit', 'Write', 'NotebookEdit'];
+
+// Answers given in local mode older than this no longer apply to the re-issued request
+const PENDING_RESPONSE_MAX_AGE_MS = 30_000;
+
 export class Session {
   readonly serverSessionId: string;
   readonly userId: string;
@@ -33,10 +79,18 @@ export class Session {
   private sessionFoundCallbacks: Array<(sessionId: string) => void> = [];
   private userInputHandler: (() => void) | null = null;
   private switchHandler: (() => void) | null = null;
-  private permissionResolver: ((response: PermissionResponse) => void) | null = null;
+  private permissionRequests: Map<string, OutstandingPermissionRequest> = new Map();
+  private permissionResolvers: Map<string, (answer: PermissionAnswer | null) => void> = new Map();
   private pendingPermissionResponse: PendingPermissionResponse | null = null;
   private permissionResponseTriggerSwitch: (() => void) | null = null;
-  private alwaysAllowedTools: Set<string> = new Set();
+  private alwaysAllowedRules: PermissionRule[] = [];
+  private permissionPolicy: PermissionPolicy;
+  private _permissionMode: PermissionMode = 'default';
+  private permissionModeHandler: ((mode: PermissionMode) => void) | null = null;
+  private interruptHandler: (() => void) | null = null;
+  private modelHandler: ((model: string | null) => void) | null = null;
+  private inputRequests: Map<string, (text: string) => void> = new Map();
+  private _mode: 'local' | 'remote' | null = null;
 
   constructor(opts: SessionOptions) {
     this.serverSessionId = opts.serverSessionId;
@@ -44,7 +98,10 @@ export class Session {
     this.deviceId = opts.deviceId;
     this.path = opts.path;
     this._claudeArgs = opts.claudeArgs;
+    // Start from --permission-mode if given; the web can change it later
+    this._permissionMode = claudeArgsToQueryOptions(opts.claudeArgs ?? []).options.permissionMode ?? 'default';
     this.queue = new MessageQueue();
+    this.permissionPolicy = PermissionPolicy.load(this.path);
   }
 
   /**
@@ -69,9 +126,6 @@ export class Session {
   private handleMessage(message: IncomingMessage): void {
     switch (message.type) {
       case 'user_input':
-        if (typeof message.payload?.prompt === 'string' && message.payload.prompt.trim().toLowerCase() === 'proceed') {
-          console.warn('[ws] Received user_input "proceed" from web; pushing to queue');
-        }
         this.queue.push(message.payload.prompt, message.payload.images);
 
         // Mark activity since user is interacting
@@ -83,29 +137,149 @@ export class Session {
         }
         break;
 
-      case 'permission_response':
-        // If we have a resolver (remote mode), use it directly
-        if (this.permissionResolver) {
-          const resolver = this.permissionResolver;
-          this.permissionResolver = null;
-          resolver(message.payload.response as PermissionResponse);
-        } else {
-          // In local mode: store the response and trigger switch to remote
-          this.pendingPermissionResponse = {
-            response: message.payload.response as PermissionResponse,
-            receivedAt: Date.now(),
-          };
-          if (this.permissionResponseTriggerSwitch) {
-            this.permissionResponseTriggerSwitch();
+      case 'permission_response': {
+        const requestId = message.payload.requestId;
+        if (typeof requestId !== 'string' || !requestId) {
+          log.warn('Ignoring permission_response without requestId');
+          break;
+        }
+
+        const response = message.payload.response;
+
+        // Questions are answered with question_response; a plain approval would leave them unanswered
+        const request = this.permissionRequests.get(requestId);
+        if (request && request.toolName === 'AskUserQuestion' && response !== 'no') {
+          this.rejectPermissionResponse(requestId, request.toolName, 'Answer AskUserQuestion with question_response');
+          break;
+        }
+
+        // Edited input only applies to approvals and must still fit the tool's shape
+        let updatedInput: Record<string, unknown> | undefined;
+        if (request && response !== 'no' && message.payload.updatedInput !== undefined) {
+          const validation = validateUpdatedInput(request.toolName, request.toolInput, message.payload.updatedInput);
+          if (!validation.ok) {
+            // Keep the request open so the user can fix the edit or answer again
+            log.warn(`Rejecting edited input for ${request.toolName}: ${validation.error}`);
+            this.rejectPermissionResponse(requestId, request.toolName, validation.error);
+            break;
           }
+          updatedInput = validation.input;
+        }
+
+        // Free-text feedback only applies to denials
+        const feedback = response === 'no' && typeof message.payload.message === 'string'
+          ? message.payload.message.trim().slice(0, MAX_DENY_MESSAGE_LENGTH)
+          : '';
+
+        const answered = this.answerPermissionRequest(requestId, {
+          response,
+          scope: typeof message.payload.scope === 'string' ? message.payload.scope : undefined,
+          updatedInput,
+          message: feedback || undefined,
+          answeredBy: 'web',
+        });
+        if (!answered) {
+          // Late or duplicated reply for a request that was already answered
+          log.warn(`Ignoring permission_response for unknown request ${requestId}`);
+        }
+        break;
+      }
+
+      case 'question_response': {
+        const requestId = message.payload.requestId;
+        const request = typeof requestId === 'string' ? this.permissionRequests.get(requestId) : undefined;
+        if (!request || request.toolName !== 'AskUserQuestion') {
+          log.warn(`Ignoring question_response for unknown question ${requestId}`);
+          break;
+        }
+
+        const result = buildQuestionAnswers(request.toolInput, message.payload.answers);
+        if (!result.ok) {
+          // Keep the question open so the user can answer again
+          log.warn(`Rejecting answers: ${result.error}`);
+          this.rejectPermissionResponse(requestId, request.toolName, result.error);
+          break;
+        }
+
+        this.markActivity();
+        this.answerPermissionRequest(requestId, { response: 'yes', answers: result.answers, answeredBy: 'web' });
+        break;
+      }
+
+      case 'input_response': {
+        const resolveInput = this.inputRequests.get(message.payload.requestId);
+        if (!resolveInput || typeof message.payload.text !== 'string') {
+          log.warn(`Ignoring input_response for unknown request ${message.payload.requestId}`);
+          break;
         }
+        this.markActivity();
+        resolveInput(message.payload.text);
         break;
+      }
 
       case 'switch':
         if (this.switchHandler) {
           this.switchHandler();
         }
         break;
+
+      case 'interrupt':
+        if (this.interruptHandler) {
+          this.interruptHandler();
+        } else {
+          log.warn('Ignoring interrupt: Claude is not running in remote mode');
+        }
+        break;
+
+      case 'set_model': {
+        const requested = typeof message.payload.model === 'string' ? message.payload.model.trim() : '';
+        const model = requested && requested !== 'default' ? requested : null;
+
+        if (this.modelHandler) {
+          // Remote mode applies it to the running Claude process
+          this.modelHandler(model);
+        } else {
+          // Nothing running: the next Claude process starts with it
+          this.setModel(model);
+          this.sendModel(this.model);
+        }
+        break;
+      }
+
+      case 'set_permission_mode': {
+        const requested = message.payload.mode === 'bypass' ? 'bypassPermissions' : message.payload.mode;
+        if (!PERMISSION_MODES.includes(requested as PermissionMode)) {
+          log.warn(`Ignoring unknown permission mode "${message.payload.mode}"`);
+          this.sendPermissionMode(this._permissionMode, `Unknown permission mode "${message.payload.mode}"`);
+          break;
+        }
+
+        // Claude doesn't ask for permission in bypass mode, so deny rules would silently stop applying
+        if (requested === 'bypassPermissions' && this.permissionPolicy.hasDenyRules) {
+          log.warn('Refusing bypassPermissions from the web: permission policy has deny rules');
+          console.log('\x1b[33m⚠️ Refused bypassPermissions from the web: your permission policy has deny rules\x1b[0m');
+          this.sendPermissionMode(this._permissionMode, 'bypassPermissions would ignore the deny rules in your permission policy');
+          break;
+        }
+
+        // Same for file edits in acceptEdits mode
+        if (requested === 'acceptEdits' && this.permissionPolicy.hasDenyRulesFor(ACCEPT_EDITS_TOOLS)) {
+          log.warn('Refusing acceptEdits from the web: permission policy has deny rules for edit tools');
+          console.log('\x1b[33m⚠️ Refused acceptEdits from the web: your permission policy has deny rules for edit tools\x1b[0m');
+          this.sendPermissionMode(this._permissionMode, 'acceptEdits would ignore the deny rules for edit tools in your permission policy');
+          break;
+        }
+
+        if (this.permissionModeHandler) {
+          // Remote mode applies it to the running Claude process
+          this.permissionModeHandler(requested as PermissionMode);
+        } else {
+          // Nothing running: remember it for the next remote query
+          this.setPermissionMode(requested as PermissionMode);
+          this.sendPermissionMode(this._permissionMode);
+        }
+        break;
+      }
     }
   }
 
@@ -135,6 +309,48 @@ export class Session {
     return this._claudeArgs;
   }
 
+  /**
+   * Get the model passed to Claude with --model, or null for the default model
+   */
+  get model(): string | null {
+    const args = this._claudeArgs ?? [];
+    const index = args.lastIndexOf('--model');
+    return index !== -1 && index + 1 < args.length ? args[index + 1] : null;
+  }
+
+  /**
+   * Set the model for the next Claude process (in either mode) by updating claudeArgs
+   */
+  setModel(model: string | null): void {
+    const args: string[] = [];
+    const current = this._claudeArgs ?? [];
+    for (let i = 0; i < current.length; i++) {
+      if (current[i] === '--model') {
+        i++; // Skip the value too
+        continue;
+      }
+      args.push(current[i]);
+    }
+    if (model) {
+      args.unshift('--model', model);
+    }
+    this._claudeArgs = args;
+  }
+
+  /**
+   * Get the permission mode used for remote queries
+   */
+  get permissionMode(): PermissionMode {
+    return this._permissionMode;
+  }
+
+  /**
+   * Set the permission mode used for remote queries
+   */
+  setPermissionMode(mode: PermissionMode): void {
+    this._permissionMode = mode;
+  }
+
   /**
    * Add callback for when session ID is found
    */
@@ -194,6 +410,27 @@ export class Session {
     this.switchHandler = handler;
   }
 
+  /**
+   * Set handler for interrupt requests from web (remote mode only)
+   */
+  onInterrupt(handler: (() => void) | null): void {
+    this.interruptHandler = handler;
+  }
+
+  /**
+   * Set handler for model change requests from web (remote mode only)
+   */
+  onModelChange(handler: ((model: string | null) => void) | null): void {
+    this.modelHandler = handler;
+  }
+
+  /**
+   * Set handler for permission mode change requests from web (remote mode only)
+   */
+  onPermissionModeChange(handler: ((mode: PermissionMode) => void) | null): void {
+    this.permissionModeHandler = handler;
+  }
+
   /**
    * Set handler for permission response triggering switch (local mode only)
    * When a permission response comes in while in local mode, this triggers switch to remote
@@ -210,9 +447,17 @@ export class Session {
   }
 
   /**
-   * Consume the pending permission response (used when switching to remote mode)
+   * Check if the pending permission response (from local mode) was given for this tool call
+   */
+  hasPendingPermissionResponseFor(toolName: string, toolInput: unknown, maxAgeMs: number = PENDING_RESPONSE_MAX_AGE_MS): boolean {
+    const pending = this.freshPendingPermissionResponse(maxAgeMs);
+    return pending !== null && this.pendingResponseMatches(pending, toolName, toolInput);
+  }
+
+  /**
+   * The pending permission response, cleared and dropped if it is older than maxAgeMs
    */
-  consumePendingPermissionResponse(maxAgeMs: number = 30_000): PermissionResponse | null {
+  private freshPendingPermissionResponse(maxAgeMs: number): PendingPermissionResponse | null {
     const pending = this.pendingPermissionResponse;
     if (!pending) return null;
 
@@ -224,57 +469,119 @@ export class Session {
       this.pendingPermissionResponse = null;
       return null;
     }
+    return pending;
+  }
 
-    this.pendingPermissionResponse = null;
-    return pending.response;
+  /**
+   * Compare a tool call on its narrowest scope (exact command, path or hostname)
+   * so that cosmetic differences in the re-issued call still match
+   */
+  private pendingResponseMatches(pending: PendingPermissionResponse, toolName: string, toolInput: unknown): boolean {
+    return (
+      pending.toolName === toolName &&
+      this.suggestAlwaysAllowScopes(toolName, toolInput)[0] ===
+        this.suggestAlwaysAllowScopes(pending.toolName, pending.toolInput)[0]
+    );
   }
 
   /**
-   * Clear any pending permission response (called when new permission request comes in)
-   * This prevents stale responses from auto-approving new requests
-   * @param maxAgeMs - Clear responses older than this (0 = clear all)
+   * Consume the pending permission response (used when switching to remote mode)
+   * Only returns it if the tool call matches the one the response was given for
    */
-  clearPendingPermissionResponse(maxAgeMs: number = 30_000): void {
-    if (!this.pendingPermissionResponse) return;
-    
-    // If maxAgeMs is 0, always clear (used when new permission request comes in)
-    if (maxAgeMs === 0) {
-      console.log(
-        `\x1b[33m⚠️ Clearing pending permission response for new request: ${this.pendingPermissionResponse.response}\x1b[0m`,
-      );
-      this.pendingPermissionResponse = null;
-      return;
+  consumePendingPermissionResponse(
+    toolName: string,
+    toolInput: unknown,
+    maxAgeMs: number = PENDING_RESPONSE_MAX_AGE_MS,
+  ): PermissionAnswer | null {
+    const pending = this.freshPendingPermissionResponse(maxAgeMs);
+    if (!pending || !this.pendingResponseMatches(pending, toolName, toolInput)) {
+      return null;
     }
-    
-    const ageMs = Date.now() - this.pendingPermissionResponse.receivedAt;
-    if (ageMs > maxAgeMs) {
-      console.log(
-        `\x1b[33m⚠️ Clearing stale pending permission response: ${this.pendingPermissionResponse.response} (age ${Math.round(ageMs / 1000)}s)\x1b[0m`,
-      );
-      this.pendingPermissionResponse = null;
+
+    this.pendingPermissionResponse = null;
+    return {
+      response: pending.response,
+      scope: pending.scope,
+      updatedInput: pending.updatedInput,
+      message: pending.message,
+      answeredBy: pending.answeredBy,
+    };
+  }
+
+  /**
+   * Register a permission request that was sent to the web UI
+   * Responses are only accepted for registered request IDs
+   */
+  registerPermissionRequest(requestId: string, toolName: string, toolInput: unknown): void {
+    const now = Date.now();
+    for (const [id, request] of this.permissionRequests) {
+      if (now - request.requestedAt > PERMISSION_REQUEST_TTL_MS) {
+        this.permissionRequests.delete(id);
+      }
     }
+    this.permissionRequests.set(requestId, { toolName, toolInput, requestedAt: now });
   }
 
   /**
-   * Check if a tool has been "always allowed" for this session
+   * Re-read the global and project permission policy files
+   * Returns the number of rules loaded
    */
-  isToolAlwaysAllowed(toolName: string): boolean {
+  reloadPermissionPolicy(): number {
+    this.permissionPolicy = PermissionPolicy.load(this.path);
+    return this.permissionPolicy.size;
+  }
+
+  /**
+   * Evaluate the persistent permission policy for a tool call
+   */
+  evaluatePermissionPolicy(toolName: string, toolInput: unknown): PolicyDecision | null {
+    // AskUserQuestion always needs the user, so policies never answer it.
+    if (toolName === 'AskUserQuestion') return null;
+    return this.permissionPolicy.evaluate(toolName, toolInput);
+  }
+
+  /**
+   * Find the "always allowed" scope covering a tool call, if any
+   */
+  findAlwaysAllowedScope(toolName: string, toolInput: unknown): string | null {
     // AskUserQuestion must never be auto-approved; it requires explicit user interaction.
-    if (toolName === 'AskUserQuestion') return false;
-    return this.alwaysAllowedTools.has(toolName);
+    if (toolName === 'AskUserQuestion') return null;
+    const rule = this.alwaysAllowedRules.find((r) => ruleMatches(r, toolName, toolInput, { cwd: this.path, action: 'allow' }));
+    return rule ? rule.raw : null;
+  }
+
+  /**
+   * Suggested "always allow" scopes for a tool call, narrowest first
+   */
+  suggestAlwaysAllowScopes(toolName: string, toolInput: unknown): string[] {
+    return suggestScopes(toolName, toolInput, this.path);
   }
 
   /**
-   * Mark a tool as "always allowed" for this session
+   * Remember an "always" answer for this session
+   * Uses the scope the user chose, or the narrowest suggested scope if none (or an invalid one) was given
    */
-  markToolAlwaysAllowed(toolName: string): void {
+  markAlwaysAllowed(toolName: string, toolInput: unknown, scope?: string): void {
     // Never persist "always allow" for AskUserQuestion.
     if (toolName === 'AskUserQuestion') {
       console.log(`\x1b[33m⚠️ Ignoring "always allow" for AskUserQuestion\x1b[0m`);
       return;
     }
-    this.alwaysAllowedTools.add(toolName);
-    console.log(`\x1b[32m✓ Tool "${toolName}" marked as always allowed for this session\x1b[0m`);
+
+    let rule = scope ? parseScopeForToolCall(scope, toolName, toolInput, this.path) : null;
+    if (scope && !rule) {
+      console.log(`\x1b[33m⚠️ Ignoring "always allow" scope "${scope}" that does not cover this ${toolName} call\x1b[0m`);
+    }
+    if (!rule) {
+      rule = parseScopeForToolCall(this.suggestAlwaysAllowScopes(toolName, toolInput)[0], toolName, toolInput, this.path);
+    }
+    if (!rule) {
+      console.log(`\x1b[33m⚠️ Could not remember "always allow" for this ${toolName} call\x1b[0m`);
+      return;
+    }
+
+    this.alwaysAllowedRules.push(rule);
+    console.log(`\x1b[32m✓ "${rule.raw}" marked as always allowed for this session\x1b[0m`);
   }
 
   /**
@@ -286,6 +593,86 @@ export class Session {
     }
   }
 
+  /**
+   * Tell the web why Claude stopped, so the session doesn't just go quiet
+   */
+  sendProcessError(mode: 'local' | 'remote', error: ClaudeProcessError): void {
+    this.sendClaudeEvent({
+      type: 'process_error',
+      mode,
+      message: error.message,
+      exit_code: error.exitCode,
+      signal: error.signal,
+      stderr: error.stderr,
+      session_id: this.claudeSessionId,
+    });
+  }
+
+  /**
+   * Push a message from Claude to the user's phone
+   */
+  notifyUser(message: string, title?: string): void {
+    if (!this.wsClient) {
+      throw new Error('Not connected to anyware');
+    }
+    this.sendClaudeEvent({
+      type: 'notify_user',
+      title,
+      message,
+      session_id: this.claudeSessionId,
+    });
+  }
+
+  /**
+   * Ask the remote user a free-form question and wait for the answer
+   * Rejects if the signal aborts first; the web is told the question is gone
+   */
+  requestInput(question: string, signal: AbortSignal): Promise<string> {
+    if (!this.wsClient) {
+      return Promise.reject(new Error('Not connected to anyware'));
+    }
+    if (signal.aborted) {
+      return Promise.reject(new Error('Input request cancelled'));
+    }
+
+    const requestId = randomUUID();
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        this.inputRequests.delete(requestId);
+        this.sendClaudeEvent({ type: 'input_request_cancelled', request_id: requestId });
+        reject(new Error('Input request cancelled'));
+      };
+
+      this.inputRequests.set(requestId, (text) => {
+        this.inputRequests.delete(requestId);
+        signal.removeEventListener('abort', onAbort);
+        resolve(text);
+      });
+      signal.addEventListener('abort', onAbort, { once: true });
+
+      this.sendClaudeEvent({
+        type: 'input_request',
+        request_id: requestId,
+        question,
+        session_id: this.claudeSessionId,
+      });
+    });
+  }
+
+  /**
+   * Tell the web Claude is being restarted after a crash, or given up on in favour of local mode
+   */
+  sendProcessRestart(restart: { action: 'restart' | 'fallback_local'; attempt: number; maxAttempts: number; delayMs?: number }): void {
+    this.sendClaudeEvent({
+      type: 'process_restart',
+      action: restart.action,
+      attempt: restart.attempt,
+      max_attempts: restart.maxAttempts,
+      delay_ms: restart.delayMs,
+      session_id: this.claudeSessionId,
+    });
+  }
+
   /**
    * Send thinking state to server
    */
@@ -295,15 +682,55 @@ export class Session {
     }
   }
 
+  /**
+   * Mode Claude is running in, once the loop has started
+   */
+  get mode(): 'local' | 'remote' | null {
+    return this._mode;
+  }
+
   /**
    * Send mode change to server
    */
   sendModeChange(mode: 'local' | 'remote'): void {
+    this._mode = mode;
     if (this.wsClient) {
       this.wsClient.sendModeChange(mode);
     }
   }
 
+  /**
+   * Report the current model to server, with an error if a change failed
+   */
+  sendModel(model: string | null, error?: string): void {
+    if (this.wsClient) {
+      this.wsClient.sendModel(model, error);
+    }
+  }
+
+  /**
+   * Tell the web an answer was not accepted; the request stays open
+   */
+  private rejectPermissionResponse(requestId: string, toolName: string, error: string): void {
+    this.sendClaudeEvent({
+      type: 'PermissionResponseRejected',
+      hook_data: {
+        request_id: requestId,
+        tool_name: toolName,
+        error,
+      },
+    });
+  }
+
+  /**
+   * Report the current permission mode to server, with an error if a change failed
+   */
+  sendPermissionMode(mode: PermissionMode, error?: string): void {
+    if (this.wsClient) {
+      this.wsClient.sendPermissionMode(mode, error);
+    }
+  }
+
   /**
    * Send presence state to server
    */
@@ -324,12 +751,109 @@ export class Session {
   }
 
   /**
-   * Wait for a permission response from the web UI
+   * Answer a registered permission request, from the web UI or the terminal
+   * The first answer wins; returns false if the request is unknown or already answered
+   */
+  answerPermissionRequest(requestId: string, answer: PermissionAnswer): boolean {
+    const request = this.permissionRequests.get(requestId);
+    if (!request) {
+      return false;
+    }
+    this.permissionRequests.delete(requestId);
+
+    // Tell the web who answered so every open prompt for this request clears
+    this.sendClaudeEvent({
+      type: 'PermissionResolved',
+      hook_data: {
+        request_id: requestId,
+        tool_name: request.toolName,
+        response: answer.response,
+        answered_by: answer.answeredBy,
+      },
+    });
+
+    // If the request is being waited on (remote mode), resolve it directly
+    const resolver = this.permissionResolvers.get(requestId);
+    if (resolver) {
+      this.permissionResolvers.delete(requestId);
+      resolver(answer);
+      return true;
+    }
+
+    // Nobody is waiting (local mode, or the request outlived its Claude process).
+    // Claude can't take answers to a question it is no longer asking, so they become the next prompt.
+    if (answer.answers) {
+      this.queue.push(formatAnswersAsPrompt(answer.answers));
+      if (this.userInputHandler) {
+        this.userInputHandler();
+      }
+      return true;
+    }
+
+    // Otherwise store the response and trigger switch to remote
+    this.pendingPermissionResponse = {
+      ...answer,
+      requestId,
+      toolName: request.toolName,
+      toolInput: request.toolInput,
+      receivedAt: Date.now(),
+    };
+    if (this.permissionResponseTriggerSwitch) {
+      this.permissionResponseTriggerSwitch();
+    }
+    return true;
+  }
+
+  /**
+   * Wait for the web UI's response to a registered permission request
+   * Resolves with null if the signal aborts or the request is cancelled
    */
-  waitForPermissionResponse(): Promise<PermissionResponse> {
+  waitForPermissionResponse(requestId: string, signal?: AbortSignal): Promise<PermissionAnswer | null> {
     return new Promise((resolve) => {
-      this.permissionResolver = resolve;
+      if (signal?.aborted) {
+        resolve(null);
+        return;
+      }
+
+      const onAbort = () => {
+        if (this.permissionResolvers.get(requestId) === finish) {
+          this.permissionResolvers.delete(requestId);
+        }
+        resolve(null);
+      };
+      const finish = (answer: PermissionAnswer | null) => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve(answer);
+      };
+
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this.permissionResolvers.set(requestId, finish);
+    });
+  }
+
+  /**
+   * Withdraw a permission request from the web UI
+   * Any waiter is resolved with null and later responses are ignored
+   */
+  cancelPermissionRequest(requestId: string, reason: 'cancelled' | 'timeout'): void {
+    const request = this.permissionRequests.get(requestId);
+    this.permissionRequests.delete(requestId);
+
+    const resolver = this.permissionResolvers.get(requestId);
+    this.permissionResolvers.delete(requestId);
+
+    this.sendClaudeEvent({
+      type: 'PermissionCancelled',
+      hook_data: {
+        request_id: requestId,
+        tool_name: request?.toolName,
+        reason,
+      },
     });
+
+    if (resolver) {
+      resolver(null);
+    }
   }
 
   /**
@@ -4,6 +4,9 @@ import { existsSync } from 'node:fs';
 import { join, resolve } from 'node:path';
 import { homedir } from 'node:os';
 import { z } from 'zod';
+import { createLogger } from '../utils/logger.js';
+
+const log = createLogger('scanner');
 
 // Schema for JSONL messages from Claude Code session files
 // Uses passthrough() to allow additional fields that Claude Code adds
@@ -183,7 +186,7 @@ export async function createSessionScanner(opts: SessionScannerOptions): Promise
       clearTimeout(syncTimeout);
     }
     syncTimeout = setTimeout(() => {
-      sync().catch(console.error);
+      sync().catch((e) => log.error('Failed to sync session log:', e));
     }, 100);
   }
 
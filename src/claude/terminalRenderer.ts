@@ -3,7 +3,15 @@
  * Displays Claude Code output in the terminal during remote mode
  */
 
-import type { SDKMessage } from './sdk/types.js';
+import type {
+  SDKOutputMessage,
+  SDKSystemMessage,
+  SDKUserMessage,
+  SDKAssistantMessage,
+  SDKResultMessage,
+  SDKStreamEvent,
+} from './sdk/types.js';
+import { getQuestions } from './askUserQuestion.js';
 
 // ANSI color codes
 const colors = {
@@ -120,11 +128,16 @@ function renderLine(char = '─', width = 60): string {
 export class TerminalRenderer {
   private lastMessageType: string | null = null;
   private isShowingThinking = false;
+  // Partial output of the assistant message being streamed, so the whole message isn't printed twice
+  private streamMessageId: string | null = null;
+  private streamedTextBlocks: string[] = [];
+  private streamHeaderShown = false;
+  private isStreamingText = false;
 
   /**
    * Render an SDK message to the terminal
    */
-  render(message: SDKMessage): void {
+  render(message: SDKOutputMessage): void {
     // Clear thinking indicator if showing
     if (this.isShowingThinking) {
       this.clearThinking();
@@ -140,11 +153,14 @@ export class TerminalRenderer {
       case 'assistant':
         this.renderAssistant(message);
         break;
+      case 'stream_event':
+        this.renderStreamEvent(message);
+        break;
       case 'result':
         this.renderResult(message);
         break;
       default:
-        // Skip other message types (control_response, etc.)
+        // Skip other message types (log, etc.)
         break;
     }
 
@@ -154,13 +170,9 @@ export class TerminalRenderer {
   /**
    * Render system message (session init)
    */
-  private renderSystem(message: SDKMessage): void {
-    const subtype = message.subtype as string;
-
-    if (subtype === 'init') {
-      const sessionId = message.session_id as string;
-      const model = message.model as string;
-      const cwd = message.cwd as string;
+  private renderSystem(message: SDKSystemMessage): void {
+    if (message.subtype === 'init') {
+      const { session_id: sessionId, model, cwd, permissionMode } = message;
 
       console.log('');
       console.log(`${colors.cyan}${colors.bold}Session Started${colors.reset}`);
@@ -173,6 +185,9 @@ export class TerminalRenderer {
       if (cwd) {
         console.log(`${colors.dim}Directory: ${cwd}${colors.reset}`);
       }
+      if (permissionMode) {
+        console.log(`${colors.dim}Permission mode: ${permissionMode}${colors.reset}`);
+      }
       console.log(renderLine());
     }
   }
@@ -180,14 +195,13 @@ export class TerminalRenderer {
   /**
    * Render user message
    */
-  private renderUser(message: SDKMessage): void {
-    const msg = message.message as { content: string | Array<{ type: string; text?: string }> };
-    if (!msg) return;
+  private renderUser(message: SDKUserMessage): void {
+    const msg = message.message;
 
     let text = '';
     if (typeof msg.content === 'string') {
       text = msg.content;
-    } else if (Array.isArray(msg.content)) {
+    } else {
       text = msg.content
         .filter((c) => c.type === 'text' && c.text)
         .map((c) => c.text)
@@ -202,31 +216,72 @@ export class TerminalRenderer {
   }
 
   /**
-   * Render assistant message (text + tool calls)
+   * Print partial assistant text as it arrives
    */
-  private renderAssistant(message: SDKMessage): void {
-    const msg = message.message as {
-      content: Array<{
-        type: string;
-        text?: string;
-        name?: string;
-        input?: unknown;
-        id?: string;
-      }>;
-    };
+  private renderStreamEvent(message: SDKStreamEvent): void {
+    // Subagent output is only shown once complete
+    if (message.parent_tool_use_id) return;
+
+    const event = message.event;
+    switch (event.type) {
+      case 'message_start':
+        this.streamMessageId = event.message?.id ?? null;
+        this.streamedTextBlocks = [];
+        this.streamHeaderShown = false;
+        break;
+      case 'content_block_start':
+        if (event.content_block?.type === 'text') {
+          this.streamedTextBlocks.push('');
+          this.isStreamingText = true;
+        }
+        break;
+      case 'content_block_delta':
+        if (this.isStreamingText && event.delta?.type === 'text_delta' && event.delta.text) {
+          if (!this.streamHeaderShown) {
+            console.log('');
+            console.log(`${colors.green}${colors.bold}Claude${colors.reset}`);
+            this.streamHeaderShown = true;
+          }
+          process.stdout.write(event.delta.text);
+          this.streamedTextBlocks[this.streamedTextBlocks.length - 1] += event.delta.text;
+        }
+        break;
+      case 'content_block_stop':
+        if (this.isStreamingText) {
+          this.isStreamingText = false;
+          const text = this.streamedTextBlocks[this.streamedTextBlocks.length - 1];
+          if (text && !text.endsWith('\n')) {
+            process.stdout.write('\n');
+          }
+        }
+        break;
+    }
+  }
 
-    if (!msg?.content) return;
+  /**
+   * Render assistant message (text + tool calls)
+   */
+  private renderAssistant(message: SDKAssistantMessage): void {
+    const msg = message.message;
 
-    let hasOutput = false;
+    // Text already printed from stream events is only completed, not repeated
+    const streamed = !message.parent_tool_use_id && msg.id !== undefined && msg.id === this.streamMessageId;
+    let hasOutput = streamed && this.streamHeaderShown;
 
     for (const block of msg.content) {
       if (block.type === 'text' && block.text) {
+        const printed = streamed ? this.streamedTextBlocks.shift() : undefined;
+        let text = block.text;
+        if (printed !== undefined && text.startsWith(printed)) {
+          text = text.slice(printed.length);
+          if (!text.trim()) continue;
+        }
         if (!hasOutput) {
           console.log('');
           console.log(`${colors.green}${colors.bold}Claude${colors.reset}`);
           hasOutput = true;
         }
-        console.log(block.text);
+        console.log(text);
       } else if (block.type === 'tool_use' && block.name) {
         const icon = getToolIcon(block.name);
         const description = getToolDescription(block.name, block.input);
@@ -280,12 +335,14 @@ export class TerminalRenderer {
   /**
    * Render result message
    */
-  private renderResult(message: SDKMessage): void {
-    const subtype = message.subtype as string;
-    const numTurns = message.num_turns as number;
-    const cost = message.total_cost_usd as number;
-    const duration = message.duration_ms as number;
-    const isError = message.is_error as boolean;
+  private renderResult(message: SDKResultMessage): void {
+    const {
+      subtype,
+      num_turns: numTurns,
+      total_cost_usd: cost,
+      duration_ms: duration,
+      is_error: isError,
+    } = message;
 
     console.log('');
     console.log(renderLine());
@@ -313,6 +370,54 @@ export class TerminalRenderer {
     }
   }
 
+  /**
+   * Render the questions of an AskUserQuestion call
+   */
+  renderQuestions(toolInput: unknown): void {
+    if (this.isShowingThinking) {
+      this.clearThinking();
+    }
+
+    const questions = getQuestions(toolInput);
+    console.log('');
+    console.log(`${colors.yellow}❓ Claude has ${questions.length === 1 ? 'a question' : 'questions'}${colors.reset}`);
+    for (const question of questions) {
+      console.log(`${colors.bold}${question.question}${colors.reset}${question.multiSelect ? `${colors.dim} (choose any)${colors.reset}` : ''}`);
+      for (const option of question.options ?? []) {
+        const description = option.description ? `${colors.dim} - ${option.description}${colors.reset}` : '';
+        console.log(`  ${colors.dim}•${colors.reset} ${option.label}${description}`);
+      }
+    }
+  }
+
+  /**
+   * Render the current permission mode
+   */
+  renderPermissionMode(mode: string): void {
+    if (this.isShowingThinking) {
+      this.clearThinking();
+    }
+
+    const color = mode === 'bypassPermissions' ? colors.red : mode === 'default' ? colors.dim : colors.yellow;
+    console.log(`${color}Permission mode: ${mode}${colors.reset}`);
+  }
+
+  /**
+   * Render a denied permission request, with the user's reason if given
+   */
+  renderPermissionDenied(toolName: string, reason?: string): void {
+    if (this.isShowingThinking) {
+      this.clearThinking();
+    }
+
+    console.log(`${colors.red}✗ ${toolName} denied${colors.reset}`);
+    if (reason) {
+      for (const line of reason.split('\n')) {
+        console.log(`${colors.dim}  ${line}${colors.reset}`);
+      }
+    }
+  }
+
   /**
    * Show a "thinking" indicator
    */
@@ -4,6 +4,8 @@ import { homedir } from 'node:os';
 
 export interface Config {
   accessToken?: string;
+  /** Exchanged for a new access token when the current one expires, if the server issued one */
+  refreshToken?: string;
   userId?: string;
   deviceId?: string;
   email?: string;
@@ -12,8 +14,19 @@ export interface Config {
   aliasPromptShown?: boolean;
   sessionCount?: number;
   enjoymentPromptShown?: boolean;
+  /** Minutes to wait for an answer to a remote permission request (0 or unset = no timeout) */
+  permissionTimeoutMinutes?: number;
+  /** What to do when a permission request times out */
+  permissionTimeoutAction?: PermissionTimeoutAction;
+  /** Claude Code executable to run instead of the one found on PATH */
+  claudePath?: string;
 }
 
+export type PermissionTimeoutAction = 'deny' | 'allow' | 'wait';
+
+/** One week; longer timeouts would overflow setTimeout and fire immediately */
+export const MAX_PERMISSION_TIMEOUT_MINUTES = 7 * 24 * 60;
+
 export interface VersionCache {
   lastUpdateCheck?: string;
   autoUpdateEnabled?: boolean;
@@ -6,6 +6,9 @@
  */
 
 import { createServer, IncomingMessage, ServerResponse, Server } from 'node:http';
+import { createLogger } from '../utils/logger.js';
+
+const log = createLogger('hooks');
 
 /**
  * Hook event types from Claude
@@ -84,12 +87,13 @@ export async function startHookServer(options: HookServerOptions): Promise<HookS
           try {
             data = JSON.parse(body);
           } catch {
-            // Ignore parse errors
+            log.warn(`Ignoring hook with invalid JSON body: ${body.slice(0, 200)}`);
           }
 
           // Support both snake_case (from Claude) and camelCase
           const sessionId = data.session_id || data.sessionId;
           const eventType = data.hook_event_name as HookEventType;
+          log.debug(`Received ${eventType ?? 'unknown'} hook for session ${sessionId ?? '(none)'}`);
 
           if (sessionId) {
             // For SessionStart, call the session hook handler
@@ -106,6 +110,7 @@ export async function startHookServer(options: HookServerOptions): Promise<HookS
           res.writeHead(200, { 'Content-Type': 'text/plain' }).end('ok');
         } catch (error) {
           clearTimeout(timeout);
+          log.error('Error handling hook:', error);
           if (!res.headersSent) {
             res.writeHead(500).end('error');
           }
@@ -126,6 +131,7 @@ export async function startHookServer(options: HookServerOptions): Promise<HookS
       }
 
       const port = address.port;
+      log.debug(`Hook server listening on port ${port}`);
 
       resolve({
         port,
@@ -7,11 +7,21 @@
 import { Command } from 'commander';
 import { createRequire } from 'module';
 import { login } from './api/auth.js';
-import { createSession, endSession } from './api/session.js';
-import { loadConfig, saveConfig, clearConfig, isLoggedIn } from './config/config.js';
+import { createSession, endSession, uploadSpooledEvents } from './api/session.js';
+import {
+  loadConfig,
+  saveConfig,
+  clearConfig,
+  isLoggedIn,
+  MAX_PERMISSION_TIMEOUT_MINUTES,
+  type Config,
+  type PermissionTimeoutAction,
+} from './config/config.js';
 import { Session } from './claude/session.js';
 import { loop } from './claude/loop.js';
+import { resolveClaudeExecutable } from './claude/claudeExecutable.js';
 import { StatusBar } from './ui/statusBar.js';
+import { setLogSession } from './utils/logger.js';
 import {
   checkForUpdate,
   isUpdateAvailable,
@@ -25,6 +35,14 @@ import {
   getClaudeArgsHelp,
 } from './claude/claudeArgs.js';
 import { setupAlias, promptEnjoymentAndAlias } from './utils/aliasSetup.js';
+import {
+  readAuditLog,
+  parseAuditDate,
+  formatAuditEntry,
+  formatAuditSummary,
+  getAuditLogPath,
+  type AuditFilter,
+} from './permissions/auditLog.js';
 
 const require = createRequire(import.meta.url);
 const { version } = require('../package.json');
@@ -70,7 +88,7 @@ program
 program
   .command('status')
   .description('Show login status')
-  .action(() => {
+  .action(async () => {
     const config = loadConfig();
     if (isLoggedIn()) {
       console.log(`Logged in as: ${config.email || config.userId}`);
@@ -78,6 +96,13 @@ program
     } else {
       console.log('Not logged in. Run "anyware login" to authenticate.');
     }
+
+    try {
+      const claude = await resolveClaudeExecutable();
+      console.log(`Claude Code: ${claude.path} (${claude.version ? `v${claude.version}` : 'unknown version'})`);
+    } catch (e) {
+      console.log(`Claude Code: ${e instanceof Error ? e.message : e}`);
+    }
   });
 
 // Version command (with update check)
@@ -127,8 +152,11 @@ program
   .description('Set configuration')
   .option('--api-url <url>', 'Set API URL')
   .option('--llm-url <url>', 'Set LLM URL')
+  .option('--permission-timeout <minutes>', 'Minutes to wait for a remote permission answer (0 = no timeout)')
+  .option('--permission-timeout-action <action>', 'Action when a permission request times out: deny, allow, or wait')
+  .option('--claude-path <path>', 'Claude Code executable to use ("" to find it automatically)')
   .action((options) => {
-    const updates: Record<string, string> = {};
+    const updates: Partial<Config> = {};
 
     if (options.apiUrl) {
       updates.apiUrl = options.apiUrl;
@@ -140,6 +168,31 @@ program
       console.log(`LLM URL set to: ${options.llmUrl}`);
     }
 
+    if (options.permissionTimeout !== undefined) {
+      const minutes = Number(options.permissionTimeout);
+      if (!Number.isFinite(minutes) || minutes < 0 || minutes > MAX_PERMISSION_TIMEOUT_MINUTES) {
+        console.error(`Permission timeout must be a number of minutes from 0 (no timeout) to ${MAX_PERMISSION_TIMEOUT_MINUTES}`);
+        process.exit(1);
+      }
+      updates.permissionTimeoutMinutes = minutes;
+      console.log(`Permission timeout set to: ${minutes === 0 ? 'none' : `${minutes} min`}`);
+    }
+
+    if (options.permissionTimeoutAction !== undefined) {
+      const action = options.permissionTimeoutAction as PermissionTimeoutAction;
+      if (!['deny', 'allow', 'wait'].includes(action)) {
+        console.error('Permission timeout action must be one of: deny, allow, wait');
+        process.exit(1);
+      }
+      updates.permissionTimeoutAction = action;
+      console.log(`Permission timeout action set to: ${action}`);
+    }
+
+    if (options.claudePath !== undefined) {
+      updates.claudePath = options.claudePath || undefined;
+      console.log(`Claude Code path set to: ${options.claudePath || 'automatic'}`);
+    }
+
     if (Object.keys(updates).length > 0) {
       saveConfig(updates);
     } else {
@@ -147,6 +200,101 @@ program
       console.log('Current configuration:');
       console.log(`  API URL: ${config.apiUrl}`);
       console.log(`  LLM URL: ${config.llmUrl}`);
+      console.log(`  Permission timeout: ${config.permissionTimeoutMinutes ? `${config.permissionTimeoutMinutes} min` : 'none'}`);
+      console.log(`  Permission timeout action: ${config.permissionTimeoutAction ?? 'deny'}`);
+      console.log(`  Claude Code path: ${config.claudePath ?? 'automatic'}`);
+    }
+  });
+
+// Audit command
+program
+  .command('audit')
+  .description('Show the permission decision audit log')
+  .option('--session <id>', 'Filter by server or Claude session ID (prefix)')
+  .option('--tool <name>', 'Filter by tool name')
+  .option('--decision <decision>', 'Filter by decision: allow, deny, or cancelled')
+  .option('--since <date>', 'Only decisions after a date/time or age (e.g. 2026-01-31, 12h, 7d)')
+  .option('--until <date>', 'Only decisions before a date/time or age')
+  .option('-n, --limit <count>', 'Show at most this many of the latest entries', '50')
+  .option('--summary', 'Summarize instead of listing entries')
+  .option('--json', 'Print matching entries as JSON lines')
+  .action((options) => {
+    const filter: AuditFilter = {
+      session: options.session,
+      tool: options.tool,
+    };
+
+    if (options.decision) {
+      if (!['allow', 'deny', 'cancelled'].includes(options.decision)) {
+        console.error('Decision must be one of: allow, deny, cancelled');
+        process.exit(1);
+      }
+      filter.decision = options.decision;
+    }
+
+    for (const key of ['since', 'until'] as const) {
+      if (options[key]) {
+        const date = parseAuditDate(options[key], new Date(), key === 'until');
+        if (!date) {
+          console.error(`Invalid --${key} value: ${options[key]}`);
+          process.exit(1);
+        }
+        filter[key] = date;
+      }
+    }
+
+    const entries = readAuditLog(filter);
+
+    if (options.summary) {
+      console.log(formatAuditSummary(entries));
+      return;
+    }
+
+    if (entries.length === 0) {
+      console.log(`No matching permission decisions in ${getAuditLogPath()}`);
+      return;
+    }
+
+    const limit = Math.max(1, Number(options.limit) || 50);
+    const shown = entries.slice(-limit);
+    for (const entry of shown) {
+      console.log(options.json ? JSON.stringify(entry) : formatAuditEntry(entry));
+    }
+    if (!options.json && shown.length < entries.length) {
+      console.log(`\n(showing latest ${shown.length} of ${entries.length}; use --limit to see more)`);
+    }
+  });
+
+// Flush command
+program
+  .command('flush')
+  .description('Upload session events left on disk by runs that ended while offline')
+  .action(async () => {
+    if (!isLoggedIn()) {
+      console.log('Not logged in. Please run "anyware login" first.');
+      process.exit(1);
+    }
+
+    try {
+      const results = await uploadSpooledEvents();
+      if (results.length === 0) {
+        console.log('No spooled events to upload.');
+      }
+      for (const result of results) {
+        if (result.status === 'uploaded') {
+          console.log(`\x1b[32m✓ ${result.serverSessionId}: uploaded ${result.eventCount} events\x1b[0m`);
+        } else if (result.status === 'discarded') {
+          console.log(`\x1b[90m${result.serverSessionId}: session no longer exists, discarded ${result.eventCount} events\x1b[0m`);
+        } else {
+          console.log(`\x1b[33m⚠️ ${result.serverSessionId}: ${result.eventCount} events kept for later (${result.error})\x1b[0m`);
+        }
+      }
+      if (results.some((result) => result.status === 'failed')) {
+        process.exitCode = 1;
+      }
+    } catch (error) {
+      console.error('Flush failed:', error instanceof Error ? error.message : error);
+      process.exit(1);
     }
   });
 
@@ -196,6 +344,17 @@ program
       }
     }
 
+    // Make sure a usable Claude Code is installed before creating a session
+    try {
+      const claude = await resolveClaudeExecutable();
+      if (!claude.version) {
+        console.log(`\x1b[33mCould not read the Claude Code version from ${claude.path}; continuing anyway.\x1b[0m`);
+      }
+    } catch (e) {
+      console.error(`\x1b[31m${e instanceof Error ? e.message : e}\x1b[0m`);
+      process.exit(1);
+    }
+
     // Check for updates before starting Claude
     // This must happen before Claude takes over stdin/stdout
     await checkAndNotify();
@@ -235,8 +394,13 @@ program
       // The session scanner (TUI mode) or SDK (remote mode) will capture events
       // with their original timestamps, avoiding duplicate imports.
 
+      // Send events left behind by earlier runs in the background; failures keep them for next time.
+      // An expired token is renewed by the session itself, so this doesn't prompt for a login as well
+      uploadSpooledEvents({ renewToken: false }).catch(() => {});
+
       // Create server session
       const serverSessionId = await createSession(options.path);
+      setLogSession(serverSessionId);
 
       // Create and start status bar
       const statusBar = new StatusBar({ sessionId: serverSessionId });
@@ -0,0 +1,124 @@
+/**
+ * anyware's own MCP server, registered with Claude in local and remote mode
+ *
+ * Gives Claude tools to reach the remote user on purpose, instead of only
+ * through permission prompts. Calls are bridged to the session's WebSocket.
+ */
+
+import { z } from 'zod';
+import type { Session } from '../claude/session.js';
+import { currentVersion } from '../update/update.js';
+import { createLogger } from '../utils/logger.js';
+import { startMcpServer, type McpServer, type McpTool } from './mcpServer.js';
+
+const log = createLogger('mcp');
+
+export const ANYWARE_MCP_SERVER_NAME = 'anyware';
+
+/** Permission rule that allows every tool of the anyware MCP server */
+export const ANYWARE_MCP_TOOLS_RULE = `mcp__${ANYWARE_MCP_SERVER_NAME}`;
+
+const NotifyUserArgsSchema = z.object({
+  message: z.string().min(1),
+  title: z.string().optional(),
+});
+
+const RequestInputArgsSchema = z.object({
+  question: z.string().min(1),
+});
+
+function parseArgs<T>(schema: z.ZodType<T>, args: unknown): T {
+  const result = schema.safeParse(args);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new Error(`Invalid arguments: ${issue.path.join('.') || 'input'}: ${issue.message}`);
+  }
+  return result.data;
+}
+
+function createTools(session: Session): McpTool[] {
+  return [
+    {
+      name: 'notify_user',
+      description:
+        "Send a push notification to the user's phone through anyware. Use it for things the user should know " +
+        'even when away from the terminal, such as a long task finishing or being blocked.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          message: { type: 'string', description: 'Notification text' },
+          title: { type: 'string', description: 'Optional short title' },
+        },
+        required: ['message'],
+      },
+      handler: async (args) => {
+        const { message, title } = parseArgs(NotifyUserArgsSchema, args);
+        session.notifyUser(message, title);
+        return 'Notification sent.';
+      },
+    },
+    {
+      name: 'request_input',
+      description:
+        'Ask the user a free-form question through the anyware web UI and wait for the typed answer. ' +
+        'Use AskUserQuestion instead when the answer is a choice between options.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          question: { type: 'string', description: 'Question to show the user' },
+        },
+        required: ['question'],
+      },
+      handler: async (args, signal) => {
+        const { question } = parseArgs(RequestInputArgsSchema, args);
+        return session.requestInput(question, signal);
+      },
+    },
+    {
+      name: 'session_info',
+      description: 'Describe the current anyware session: IDs, working directory, mode, model and permission mode.',
+      inputSchema: { type: 'object', properties: {} },
+      handler: async () =>
+        JSON.stringify(
+          {
+            anywareSessionId: session.serverSessionId,
+            claudeSessionId: session.claudeSessionId,
+            workingDirectory: session.path,
+            mode: session.mode,
+            model: session.model ?? 'default',
+            permissionMode: session.permissionMode,
+          },
+          null,
+          2,
+        ),
+    },
+  ];
+}
+
+/**
+ * Start the anyware MCP server for a session
+ * Resolves with null if it can't start; Claude then runs without anyware's tools
+ */
+export async function startAnywareMcpServer(session: Session): Promise<McpServer | null> {
+  try {
+    return await startMcpServer({
+      name: ANYWARE_MCP_SERVER_NAME,
+      version: currentVersion,
+      tools: createTools(session),
+    });
+  } catch (e) {
+    const message = e instanceof Error ? e.message : String(e);
+    log.warn(`Could not start MCP server: ${message}`);
+    console.log(`\x1b[33m⚠️ Could not start anyware's MCP server, Claude won't be able to notify you or ask for input: ${message}\x1b[0m`);
+    return null;
+  }
+}
+
+/**
+ * MCP config entry pointing Claude at a running anyware MCP server
+ */
+export function getAnywareMcpServers(server: McpServer): Record<string, unknown> {
+  return {
+    [ANYWARE_MCP_SERVER_NAME]: { type: 'http', url: server.url, headers: server.headers },
+  };
+}
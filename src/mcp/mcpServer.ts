@@ -0,0 +1,260 @@
+/**
+ * Minimal MCP server over HTTP
+ *
+ * Speaks just enough of the Model Context Protocol (JSON-RPC over the
+ * streamable HTTP transport, JSON responses only) for Claude to list and call
+ * a fixed set of tools. Listens on localhost only, and only answers requests
+ * carrying the random bearer token handed to Claude with the server's URL.
+ */
+
+import { createServer, IncomingMessage, ServerResponse, Server } from 'node:http';
+import { randomBytes, timingSafeEqual } from 'node:crypto';
+import { createLogger } from '../utils/logger.js';
+
+const log = createLogger('mcp');
+
+const MCP_PATH = '/mcp';
+
+// Newest first; a client asking for another version gets the newest
+const SUPPORTED_PROTOCOL_VERSIONS = ['2025-06-18', '2025-03-26', '2024-11-05'];
+
+// JSON-RPC error codes
+const PARSE_ERROR = -32700;
+const INVALID_REQUEST = -32600;
+const METHOD_NOT_FOUND = -32601;
+const INVALID_PARAMS = -32602;
+const INTERNAL_ERROR = -32603;
+
+export interface McpTool {
+  name: string;
+  description: string;
+  /** JSON Schema for the tool's arguments */
+  inputSchema: Record<string, unknown>;
+  /**
+   * Run the tool and return its text result
+   * Throw to report an error to Claude; the signal aborts if Claude gives up on the call
+   */
+  handler: (args: unknown, signal: AbortSignal) => Promise<string>;
+}
+
+export interface McpServerOptions {
+  name: string;
+  version: string;
+  tools: McpTool[];
+}
+
+export interface McpServer {
+  /** The port the server is listening on */
+  port: number;
+  /** URL to give Claude in its MCP config */
+  url: string;
+  /** Headers to give Claude in its MCP config; requests without them are rejected */
+  headers: Record<string, string>;
+  /** Stop the server */
+  stop: () => void;
+}
+
+interface JsonRpcRequest {
+  jsonrpc: '2.0';
+  id?: string | number | null;
+  method: string;
+  params?: Record<string, unknown>;
+}
+
+type JsonRpcResponse =
+  | { jsonrpc: '2.0'; id: string | number | null; result: unknown }
+  | { jsonrpc: '2.0'; id: string | number | null; error: { code: number; message: string } };
+
+class JsonRpcError extends Error {
+  constructor(
+    readonly code: number,
+    message: string,
+  ) {
+    super(message);
+    this.name = 'JsonRpcError';
+  }
+}
+
+function hasToken(req: IncomingMessage, expected: Buffer): boolean {
+  const header = req.headers.authorization;
+  if (typeof header !== 'string' || !header.startsWith('Bearer ')) {
+    return false;
+  }
+  const token = Buffer.from(header.slice('Bearer '.length));
+  return token.length === expected.length && timingSafeEqual(token, expected);
+}
+
+function isJsonRpcRequest(value: unknown): value is JsonRpcRequest {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    (value as { jsonrpc?: unknown }).jsonrpc === '2.0' &&
+    typeof (value as { method?: unknown }).method === 'string'
+  );
+}
+
+/**
+ * Start an MCP server on a random localhost port
+ */
+export async function startMcpServer(options: McpServerOptions): Promise<McpServer> {
+  const tools = new Map(options.tools.map((tool) => [tool.name, tool]));
+  // Any local process can reach the port, so only Claude gets to call the tools
+  const token = randomBytes(32).toString('hex');
+  const expectedToken = Buffer.from(token);
+
+  const handleRequest = async (request: JsonRpcRequest, signal: AbortSignal): Promise<unknown> => {
+    switch (request.method) {
+      case 'initialize': {
+        const requested = request.params?.protocolVersion;
+        const protocolVersion =
+          typeof requested === 'string' && SUPPORTED_PROTOCOL_VERSIONS.includes(requested)
+            ? requested
+            : SUPPORTED_PROTOCOL_VERSIONS[0];
+        return {
+          protocolVersion,
+          capabilities: { tools: {} },
+          serverInfo: { name: options.name, version: options.version },
+        };
+      }
+
+      case 'ping':
+        return {};
+
+      case 'tools/list':
+        return {
+          tools: options.tools.map(({ name, description, inputSchema }) => ({ name, description, inputSchema })),
+        };
+
+      case 'tools/call': {
+        const name = request.params?.name;
+        const tool = typeof name === 'string' ? tools.get(name) : undefined;
+        if (!tool) {
+          throw new JsonRpcError(INVALID_PARAMS, `Unknown tool: ${String(name)}`);
+        }
+
+        log.debug(`Tool call: ${tool.name}`);
+        try {
+          const text = await tool.handler(request.params?.arguments ?? {}, signal);
+          return { content: [{ type: 'text', text }] };
+        } catch (e) {
+          // Tool failures are results Claude can read, not protocol errors
+          const message = e instanceof Error ? e.message : String(e);
+          log.warn(`Tool ${tool.name} failed: ${message}`);
+          return { content: [{ type: 'text', text: message }], isError: true };
+        }
+      }
+
+      default:
+        throw new JsonRpcError(METHOD_NOT_FOUND, `Method not found: ${request.method}`);
+    }
+  };
+
+  const respond = async (message: unknown, signal: AbortSignal): Promise<JsonRpcResponse | null> => {
+    if (!isJsonRpcRequest(message)) {
+      return { jsonrpc: '2.0', id: null, error: { code: INVALID_REQUEST, message: 'Invalid request' } };
+    }
+
+    // Notifications (no id) get no response
+    if (message.id === undefined) {
+      return null;
+    }
+
+    try {
+      return { jsonrpc: '2.0', id: message.id, result: await handleRequest(message, signal) };
+    } catch (e) {
+      const code = e instanceof JsonRpcError ? e.code : INTERNAL_ERROR;
+      return { jsonrpc: '2.0', id: message.id, error: { code, message: e instanceof Error ? e.message : String(e) } };
+    }
+  };
+
+  return new Promise((resolve, reject) => {
+    const server: Server = createServer(async (req: IncomingMessage, res: ServerResponse) => {
+      if (req.url !== MCP_PATH) {
+        res.writeHead(404).end('not found');
+        return;
+      }
+
+      if (!hasToken(req, expectedToken)) {
+        log.warn('Rejected MCP request without a valid token');
+        res.writeHead(401).end('unauthorized');
+        return;
+      }
+
+      // No server-initiated messages, so no event stream to open
+      if (req.method !== 'POST') {
+        res.writeHead(405, { Allow: 'POST' }).end();
+        return;
+      }
+
+      // Tool calls like request_input can wait a long time; stop them if Claude disconnects
+      const abortController = new AbortController();
+      res.on('close', () => {
+        if (!res.writableFinished) {
+          abortController.abort();
+        }
+      });
+
+      try {
+        const chunks: Buffer[] = [];
+        for await (const chunk of req) {
+          chunks.push(chunk as Buffer);
+        }
+
+        let body: unknown;
+        try {
+          body = JSON.parse(Buffer.concat(chunks).toString('utf-8'));
+        } catch {
+          res
+            .writeHead(400, { 'Content-Type': 'application/json' })
+            .end(JSON.stringify({ jsonrpc: '2.0', id: null, error: { code: PARSE_ERROR, message: 'Parse error' } }));
+          return;
+        }
+
+        // A batch is answered with an array of the responses to its requests
+        const responses = Array.isArray(body)
+          ? (await Promise.all(body.map((message) => respond(message, abortController.signal)))).filter(
+              (response) => response !== null,
+            )
+          : await respond(body, abortController.signal);
+
+        if (responses === null || (Array.isArray(responses) && responses.length === 0)) {
+          res.writeHead(202).end();
+          return;
+        }
+        if (!res.destroyed) {
+          res.writeHead(200, { 'Content-Type': 'application/json' }).end(JSON.stringify(responses));
+        }
+      } catch (error) {
+        log.error('Error handling MCP request:', error);
+        if (!res.headersSent) {
+          res.writeHead(500).end('error');
+        }
+      }
+    });
+
+    // Listen on random available port
+    server.listen(0, '127.0.0.1', () => {
+      const address = server.address();
+      if (!address || typeof address === 'string') {
+        reject(new Error('Failed to get server address'));
+        return;
+      }
+
+      const port = address.port;
+      log.debug(`MCP server listening on port ${port}`);
+
+      resolve({
+        port,
+        url: `http://127.0.0.1:${port}${MCP_PATH}`,
+        headers: { Authorization: `Bearer ${token}` },
+        stop: () => {
+          server.close();
+        },
+      });
+    });
+
+    server.on('error', (err) => {
+      reject(err);
+    });
+  });
+}
@@ -0,0 +1,261 @@
+/**
+ * Append-only audit trail of permission decisions
+ *
+ * Every decision made in remote mode is written as one JSON line to
+ * ~/.anyware/audit.jsonl, with tool inputs summarized and secrets redacted.
+ */
+
+import { appendFileSync, existsSync, mkdirSync, readFileSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { homedir } from 'node:os';
+import { createLogger } from '../utils/logger.js';
+
+const log = createLogger('audit');
+
+export type AuditDecisionSource =
+  | 'web'
+  | 'terminal'
+  | 'always-allow'
+  | 'policy'
+  | 'pending'
+  | 'timeout'
+  | 'cancelled';
+
+export interface AuditEntry {
+  timestamp: string; // ISO 8601
+  serverSessionId: string;
+  claudeSessionId: string | null;
+  requestId: string;
+  tool: string;
+  /** Redacted summary of the tool input */
+  input: string;
+  decision: 'allow' | 'deny' | 'cancelled';
+  /** The user's answer, when a user answered */
+  response?: 'yes' | 'no' | 'always';
+  source: AuditDecisionSource;
+  /** Policy rule or "always allow" scope behind the decision */
+  rule?: string;
+  /** Whether the user edited the input before approving */
+  edited?: boolean;
+  /** Denial feedback given to Claude */
+  message?: string;
+  latencyMs: number;
+}
+
+export interface AuditFilter {
+  /** Server or Claude session ID (prefix match) */
+  session?: string;
+  tool?: string;
+  decision?: AuditEntry['decision'];
+  since?: Date;
+  until?: Date;
+}
+
+const MAX_SUMMARY_LENGTH = 200;
+
+// Patterns for values that should never land in the audit log
+const SECRET_PATTERNS: Array<[RegExp, string]> = [
+  // Also env-style names around the keyword, like GITHUB_TOKEN or AWS_SECRET_ACCESS_KEY
+  [
+    /\b((?:[A-Z0-9_]*_)?(?:api[_-]?key|access[_-]?token|auth[_-]?token|token|secret|password|passwd|pwd)(?:_[A-Z0-9_]*)?)(\s*[=:]\s*)("[^"]*"|'[^']*'|\S+)/gi,
+    '$1$2[REDACTED]',
+  ],
+  [/\b(Bearer|Basic)\s+[A-Za-z0-9._~+/=-]+/g, '$1 [REDACTED]'],
+  [/(:\/\/[^/\s:@]+):[^@\s/]+@/g, '$1:[REDACTED]@'],
+  [/\b(sk-[A-Za-z0-9_-]{10,}|gh[pousr]_[A-Za-z0-9]{20,}|xox[abpr]-[A-Za-z0-9-]{10,}|AKIA[0-9A-Z]{16})\b/g, '[REDACTED]'],
+];
+
+/**
+ * Get the audit log file path
+ */
+export function getAuditLogPath(): string {
+  return join(homedir(), '.anyware', 'audit.jsonl');
+}
+
+/**
+ * Replace anything that looks like a credential
+ */
+export function redactSecrets(text: string): string {
+  let result = text;
+  for (const [pattern, replacement] of SECRET_PATTERNS) {
+    result = result.replace(pattern, replacement);
+  }
+  return result;
+}
+
+function truncate(text: string, maxLen: number): string {
+  if (text.length <= maxLen) return text;
+  return text.slice(0, maxLen - 3) + '...';
+}
+
+/**
+ * Summarize a tool input for the audit log
+ * File contents are never recorded, only their size
+ */
+export function summarizeToolInput(toolName: string, input: unknown): string {
+  const inp = (typeof input === 'object' && input !== null ? input : {}) as Record<string, unknown>;
+
+  let summary: string;
+  switch (toolName) {
+    case 'Bash':
+      summary = String(inp.command ?? '');
+      break;
+    case 'Write':
+      summary = `${inp.file_path ?? ''} (${typeof inp.content === 'string' ? inp.content.length : 0} chars)`;
+      break;
+    case 'Read':
+    case 'Edit':
+    case 'MultiEdit':
+      summary = String(inp.file_path ?? '');
+      break;
+    case 'NotebookEdit':
+      summary = String(inp.notebook_path ?? '');
+      break;
+    case 'Glob':
+    case 'Grep':
+      summary = `${inp.pattern ?? ''}${inp.path ? ` in ${inp.path}` : ''}`;
+      break;
+    case 'WebFetch':
+      try {
+        const url = new URL(String(inp.url));
+        summary = `${url.origin}${url.pathname}`;
+      } catch {
+        summary = String(inp.url ?? '');
+      }
+      break;
+    case 'WebSearch':
+      summary = String(inp.query ?? '');
+      break;
+    default:
+      // Unknown tools: record which fields were passed, not their values
+      summary = `{${Object.keys(inp).join(', ')}}`;
+  }
+
+  return truncate(redactSecrets(summary.replace(/\s+/g, ' ').trim()), MAX_SUMMARY_LENGTH);
+}
+
+/**
+ * Append a decision to the audit log
+ * Failures are reported but never interrupt the session
+ */
+export function appendAuditEntry(entry: AuditEntry): void {
+  const filePath = getAuditLogPath();
+  try {
+    mkdirSync(dirname(filePath), { recursive: true });
+    appendFileSync(filePath, JSON.stringify(entry) + '\n', { mode: 0o600 });
+  } catch (e) {
+    log.error(`Failed to write audit log ${filePath}:`, e instanceof Error ? e.message : e);
+  }
+}
+
+/**
+ * Read audit entries matching a filter, oldest first
+ */
+export function readAuditLog(filter: AuditFilter = {}): AuditEntry[] {
+  const filePath = getAuditLogPath();
+  if (!existsSync(filePath)) {
+    return [];
+  }
+
+  const entries: AuditEntry[] = [];
+  for (const line of readFileSync(filePath, 'utf-8').split('\n')) {
+    if (!line.trim()) continue;
+
+    let entry: AuditEntry;
+    try {
+      entry = JSON.parse(line) as AuditEntry;
+    } catch {
+      continue;
+    }
+
+    if (filter.session && !entry.serverSessionId.startsWith(filter.session) && !entry.claudeSessionId?.startsWith(filter.session)) {
+      continue;
+    }
+    if (filter.tool && entry.tool.toLowerCase() !== filter.tool.toLowerCase()) continue;
+    if (filter.decision && entry.decision !== filter.decision) continue;
+
+    const time = new Date(entry.timestamp).getTime();
+    if (filter.since && time < filter.since.getTime()) continue;
+    if (filter.until && time > filter.until.getTime()) continue;
+
+    entries.push(entry);
+  }
+
+  return entries;
+}
+
+/**
+ * Parse a date filter: an ISO date/time, or a relative age like "30m", "12h", "7d"
+ * A bare date means the start of that local day, or its end with endOfDay, so --until includes it
+ */
+export function parseAuditDate(value: string, now: Date = new Date(), endOfDay = false): Date | null {
+  const relative = value.trim().match(/^(\d+)\s*([mhd])$/);
+  if (relative) {
+    const unitMs = { m: 60_000, h: 3_600_000, d: 86_400_000 }[relative[2] as 'm' | 'h' | 'd'];
+    return new Date(now.getTime() - Number(relative[1]) * unitMs);
+  }
+
+  const day = value.trim().match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (day) {
+    const [year, month, date] = [Number(day[1]), Number(day[2]) - 1, Number(day[3])];
+    return endOfDay ? new Date(year, month, date, 23, 59, 59, 999) : new Date(year, month, date);
+  }
+
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Format one entry as a single log line
+ */
+export function formatAuditEntry(entry: AuditEntry): string {
+  const time = entry.timestamp.replace('T', ' ').slice(0, 19);
+  const decision = entry.decision.padEnd(9);
+  const source = entry.source.padEnd(12);
+  const latency = `${(entry.latencyMs / 1000).toFixed(1)}s`;
+  const extra = entry.rule ? ` [${entry.rule}]` : entry.message ? ` "${truncate(entry.message, 60)}"` : '';
+  return `${time}  ${decision} ${source} ${entry.serverSessionId.slice(0, 8)}  ${entry.tool}: ${entry.input}${extra} (${latency})`;
+}
+
+/**
+ * Summarize entries by decision, source and tool
+ */
+export function formatAuditSummary(entries: AuditEntry[]): string {
+  if (entries.length === 0) {
+    return 'No permission decisions recorded.';
+  }
+
+  const countBy = (key: (e: AuditEntry) => string): Array<[string, number]> => {
+    const counts = new Map<string, number>();
+    for (const entry of entries) {
+      counts.set(key(entry), (counts.get(key(entry)) ?? 0) + 1);
+    }
+    return [...counts.entries()].sort((a, b) => b[1] - a[1]);
+  };
+
+  const answered = entries.filter((e) => e.source === 'web' || e.source === 'terminal');
+  const avgLatency = answered.length > 0
+    ? answered.reduce((sum, e) => sum + e.latencyMs, 0) / answered.length
+    : 0;
+  const sessions = new Set(entries.map((e) => e.serverSessionId));
+
+  const lines: string[] = [
+    `${entries.length} decision${entries.length === 1 ? '' : 's'} across ${sessions.size} session${sessions.size === 1 ? '' : 's'}`,
+    `From ${entries[0].timestamp} to ${entries[entries.length - 1].timestamp}`,
+    '',
+    'By decision:',
+    ...countBy((e) => e.decision).map(([k, n]) => `  ${k.padEnd(14)} ${n}`),
+    '',
+    'By source:',
+    ...countBy((e) => e.source).map(([k, n]) => `  ${k.padEnd(14)} ${n}`),
+    '',
+    'By tool:',
+    ...countBy((e) => `${e.tool} ${e.decision}`).map(([k, n]) => `  ${k.padEnd(30)} ${n}`),
+  ];
+
+  if (answered.length > 0) {
+    lines.push('', `Average time to answer: ${(avgLatency / 1000).toFixed(1)}s`);
+  }
+
+  return lines.join('\n');
+}
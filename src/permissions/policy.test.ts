@@ -0,0 +1,33 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdirSync, mkdtempSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { PermissionPolicy, getProjectPolicyPath } from './policy.js';
+
+function projectWithPolicy(policy: object): string {
+  const projectPath = mkdtempSync(join(tmpdir(), 'anyware-policy-'));
+  mkdirSync(join(projectPath, '.anyware'));
+  writeFileSync(getProjectPolicyPath(projectPath), JSON.stringify(policy));
+  return projectPath;
+}
+
+describe('PermissionPolicy', () => {
+  it('evaluates deny before ask before allow', () => {
+    const policy = PermissionPolicy.load(projectWithPolicy({ allow: ['Bash(npm:*)'], deny: ['Bash(npm publish:*)'] }));
+    assert.equal(policy.evaluate('Bash', { command: 'npm publish' })?.action, 'deny');
+    assert.equal(policy.evaluate('Bash', { command: 'npm test' })?.action, 'allow');
+  });
+
+  it('tells which tools have deny rules', () => {
+    const policy = PermissionPolicy.load(projectWithPolicy({ deny: ['Bash(rm -rf:*)', 'Edit(secrets/**)'] }));
+    assert.equal(policy.hasDenyRules, true);
+    assert.equal(policy.hasDenyRulesFor(['Edit', 'Write']), true);
+    assert.equal(policy.hasDenyRulesFor(['NotebookEdit']), false);
+  });
+
+  it('matches tool name globs in deny rules', () => {
+    const policy = PermissionPolicy.load(projectWithPolicy({ deny: ['*Edit'] }));
+    assert.equal(policy.hasDenyRulesFor(['MultiEdit']), true);
+  });
+});
@@ -0,0 +1,151 @@
+/**
+ * Persistent permission policies for remote mode
+ *
+ * Policies are read from ~/.anyware/permissions.json (global) and
+ * <project>/.anyware/permissions.json (project). Both files share one format:
+ *
+ *   {
+ *     "allow": ["Read", "Bash(npm test:*)"],
+ *     "ask":   ["Bash(git push:*)"],
+ *     "deny":  ["Bash(rm -rf:*)", "WebFetch(domain:*.internal)"]
+ *   }
+ *
+ * Deny rules win over ask rules, which win over allow rules. Within each
+ * action, project rules are checked before global ones.
+ */
+
+import { existsSync, readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { homedir } from 'node:os';
+import { z } from 'zod';
+import { parseRule, ruleMatches, type PermissionRule, type PolicyAction } from './rules.js';
+import { matchesGlob } from '../utils/glob.js';
+
+const PolicyFileSchema = z.object({
+  allow: z.array(z.string()).optional(),
+  ask: z.array(z.string()).optional(),
+  deny: z.array(z.string()).optional(),
+});
+
+export type PolicySource = 'global' | 'project';
+
+interface PolicyRule extends PermissionRule {
+  action: PolicyAction;
+  source: PolicySource;
+}
+
+export interface PolicyDecision {
+  action: PolicyAction;
+  /** The rule string that matched */
+  rule: string;
+  source: PolicySource;
+}
+
+// Evaluation order: the first matching rule decides
+const ACTION_ORDER: PolicyAction[] = ['deny', 'ask', 'allow'];
+
+/**
+ * Get the global policy file path
+ */
+export function getGlobalPolicyPath(): string {
+  return join(homedir(), '.anyware', 'permissions.json');
+}
+
+/**
+ * Get the project policy file path
+ */
+export function getProjectPolicyPath(projectPath: string): string {
+  return join(projectPath, '.anyware', 'permissions.json');
+}
+
+/**
+ * Read and validate a policy file, warning about anything unusable
+ */
+function readPolicyFile(filePath: string, source: PolicySource): PolicyRule[] {
+  if (!existsSync(filePath)) {
+    return [];
+  }
+
+  let parsed: z.infer<typeof PolicyFileSchema>;
+  try {
+    const result = PolicyFileSchema.safeParse(JSON.parse(readFileSync(filePath, 'utf-8')));
+    if (!result.success) {
+      console.warn(`\x1b[33m⚠️ Ignoring invalid permission policy ${filePath}: ${result.error.issues[0]?.message}\x1b[0m`);
+      return [];
+    }
+    parsed = result.data;
+  } catch (e) {
+    console.warn(`\x1b[33m⚠️ Could not read permission policy ${filePath}: ${e instanceof Error ? e.message : e}\x1b[0m`);
+    return [];
+  }
+
+  const rules: PolicyRule[] = [];
+  for (const action of ACTION_ORDER) {
+    for (const raw of parsed[action] ?? []) {
+      const rule = parseRule(raw);
+      if (!rule) {
+        console.warn(`\x1b[33m⚠️ Ignoring invalid permission rule "${raw}" in ${filePath}\x1b[0m`);
+        continue;
+      }
+      rules.push({ ...rule, action, source });
+    }
+  }
+
+  return rules;
+}
+
+export class PermissionPolicy {
+  private constructor(
+    private readonly projectPath: string,
+    private readonly rules: PolicyRule[],
+  ) {}
+
+  /**
+   * Load the global and project policy files
+   */
+  static load(projectPath: string): PermissionPolicy {
+    const rules = [
+      ...readPolicyFile(getProjectPolicyPath(projectPath), 'project'),
+      ...readPolicyFile(getGlobalPolicyPath(), 'global'),
+    ];
+    return new PermissionPolicy(projectPath, rules);
+  }
+
+  /**
+   * Number of loaded rules
+   */
+  get size(): number {
+    return this.rules.length;
+  }
+
+  /**
+   * Whether any deny rules are loaded
+   */
+  get hasDenyRules(): boolean {
+    return this.rules.some((rule) => rule.action === 'deny');
+  }
+
+  /**
+   * Whether any deny rules apply to one of these tools
+   */
+  hasDenyRulesFor(toolNames: string[]): boolean {
+    return this.rules.some(
+      (rule) => rule.action === 'deny' && toolNames.some((toolName) => matchesGlob(toolName, rule.toolName)),
+    );
+  }
+
+  /**
+   * Find the policy decision for a tool call, or null if no rule matches
+   */
+  evaluate(toolName: string, input: unknown): PolicyDecision | null {
+    for (const action of ACTION_ORDER) {
+      for (const rule of this.rules) {
+        if (rule.action !== action) continue;
+        if (ruleMatches(rule, toolName, input, { cwd: this.projectPath, action })) {
+          return { action, rule: rule.raw, source: rule.source };
+        }
+      }
+    }
+    return null;
+  }
+}
@@ -0,0 +1,144 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseRule, ruleMatches, splitShellCommand, suggestScopes, type PolicyAction, type PermissionRule } from './rules.js';
+
+const cwd = '/home/user/project';
+
+function rule(raw: string): PermissionRule {
+  const parsed = parseRule(raw);
+  assert.ok(parsed, `invalid rule ${raw}`);
+  return parsed;
+}
+
+function bashMatches(raw: string, command: string, action: PolicyAction = 'allow'): boolean {
+  return ruleMatches(rule(raw), 'Bash', { command }, { cwd, action });
+}
+
+describe('parseRule', () => {
+  it('parses bare tool names and specifiers', () => {
+    assert.deepEqual(parseRule('Read'), { raw: 'Read', toolName: 'Read', specifier: undefined });
+    assert.deepEqual(parseRule('Bash(npm test:*)'), { raw: 'Bash(npm test:*)', toolName: 'Bash', specifier: 'npm test:*' });
+  });
+
+  it('rejects malformed rules', () => {
+    assert.equal(parseRule('Bash()'), null);
+    assert.equal(parseRule('Bash (ls)'), null);
+  });
+});
+
+describe('splitShellCommand', () => {
+  it('splits on control operators', () => {
+    assert.deepEqual(splitShellCommand('a && b || c; d | e |& f\ng'), ['a', 'b', 'c', 'd', 'e', 'f', 'g']);
+  });
+
+  it('splits on background &', () => {
+    assert.deepEqual(splitShellCommand('npm test & rm -rf ~'), ['npm test', 'rm -rf ~']);
+  });
+
+  it('keeps & in redirections', () => {
+    assert.deepEqual(splitShellCommand('npm test 2>&1'), ['npm test 2>&1']);
+    assert.deepEqual(splitShellCommand('npm test &> out.log'), ['npm test &> out.log']);
+  });
+});
+
+describe('Bash rules', () => {
+  it('matches prefixes on word boundaries', () => {
+    assert.equal(bashMatches('Bash(npm test:*)', 'npm test'), true);
+    assert.equal(bashMatches('Bash(npm test:*)', 'npm test -- --watch'), true);
+    assert.equal(bashMatches('Bash(npm test:*)', 'npm tests'), false);
+  });
+
+  it('needs every part of a compound command for allow', () => {
+    assert.equal(bashMatches('Bash(npm test:*)', 'npm test && npm test'), true);
+    assert.equal(bashMatches('Bash(npm test:*)', 'npm test && rm -rf ~'), false);
+    assert.equal(bashMatches('Bash(npm test:*)', 'npm test & rm -rf ~'), false);
+  });
+
+  it('never allows substitutions, subshells or redirections by prefix', () => {
+    assert.equal(bashMatches('Bash(npm test:*)', 'npm test $(rm -rf ~)'), false);
+    assert.equal(bashMatches('Bash(npm test:*)', 'npm test `rm -rf ~`'), false);
+    assert.equal(bashMatches('Bash(npm test:*)', 'npm test <(rm -rf ~)'), false);
+    assert.equal(bashMatches('Bash(npm test:*)', 'npm test >(rm -rf ~)'), false);
+    assert.equal(bashMatches('Bash(echo:*)', 'echo x > ~/.bashrc'), false);
+    assert.equal(bashMatches('Bash(npm test:*)', '(npm test)'), false);
+  });
+
+  it('allows redirections that only merge or discard output', () => {
+    assert.equal(bashMatches('Bash(npm test:*)', 'npm test 2>&1'), true);
+    assert.equal(bashMatches('Bash(npm test:*)', 'npm test > /dev/null'), true);
+  });
+
+  it('denies when any part matches', () => {
+    assert.equal(bashMatches('Bash(rm:*)', 'npm test & rm -rf ~', 'deny'), true);
+    assert.equal(bashMatches('Bash(rm:*)', 'npm test; rm -rf ~', 'deny'), true);
+    assert.equal(bashMatches('Bash(rm:*)', 'npm test', 'deny'), false);
+  });
+
+  it('matches exact and glob specifiers', () => {
+    assert.equal(bashMatches('Bash(git status)', 'git status'), true);
+    assert.equal(bashMatches('Bash(git status)', 'git status --short'), false);
+    assert.equal(bashMatches('Bash(git log *)', 'git log --oneline'), true);
+  });
+});
+
+describe('path rules', () => {
+  const pathMatches = (raw: string, filePath: string) =>
+    ruleMatches(rule(raw), 'Edit', { file_path: filePath }, { cwd, action: 'allow' });
+
+  it('resolves relative globs against the project root', () => {
+    assert.equal(pathMatches('Edit(src/**)', 'src/a/b.ts'), true);
+    assert.equal(pathMatches('Edit(src/**)', `${cwd}/src/a.ts`), true);
+    assert.equal(pathMatches('Edit(src/*)', 'src/a/b.ts'), false);
+  });
+
+  it('never matches files outside the project with relative globs', () => {
+    assert.equal(pathMatches('Edit(**)', '../other/file.ts'), false);
+    assert.equal(pathMatches('Edit(**)', '/etc/passwd'), false);
+  });
+
+  it('matches absolute globs', () => {
+    assert.equal(pathMatches('Edit(/tmp/**)', '/tmp/x/y'), true);
+  });
+});
+
+describe('WebFetch rules', () => {
+  const fetchMatches = (raw: string, url: string) => ruleMatches(rule(raw), 'WebFetch', { url }, { cwd, action: 'allow' });
+
+  it('matches hostnames', () => {
+    assert.equal(fetchMatches('WebFetch(domain:github.com)', 'https://github.com/a'), true);
+    assert.equal(fetchMatches('WebFetch(domain:*.github.com)', 'https://api.github.com/a'), true);
+    assert.equal(fetchMatches('WebFetch(domain:github.com)', 'https://github.com.evil.io/'), false);
+  });
+});
+
+describe('tool name rules', () => {
+  it('matches tool name globs', () => {
+    assert.equal(ruleMatches(rule('mcp__github__*'), 'mcp__github__create_issue', {}, { cwd, action: 'allow' }), true);
+    assert.equal(ruleMatches(rule('mcp__github__*'), 'mcp__gitlab__x', {}, { cwd, action: 'allow' }), false);
+  });
+});
+
+describe('suggestScopes', () => {
+  it('suggests the exact command, then prefixes, then the tool', () => {
+    assert.deepEqual(suggestScopes('Bash', { command: 'npm run build -- --watch' }, cwd), [
+      'Bash(npm run build -- --watch)',
+      'Bash(npm run:*)',
+      'Bash(npm:*)',
+      'Bash',
+    ]);
+  });
+
+  it('escapes glob characters in the exact command', () => {
+    const [exact] = suggestScopes('Bash', { command: 'rm -f *.log' }, cwd);
+    assert.equal(exact, 'Bash(rm -f \\*.log)');
+    assert.equal(bashMatches(exact, 'rm -f *.log'), true);
+    assert.equal(bashMatches(exact, 'rm -f important.log'), false);
+  });
+
+  it('escapes glob characters in paths', () => {
+    const [exact] = suggestScopes('Edit', { file_path: 'src/what?.ts' }, cwd);
+    assert.equal(exact, 'Edit(src/what\\?.ts)');
+    assert.equal(ruleMatches(rule(exact), 'Edit', { file_path: 'src/what?.ts' }, { cwd, action: 'allow' }), true);
+    assert.equal(ruleMatches(rule(exact), 'Edit', { file_path: 'src/whatX.ts' }, { cwd, action: 'allow' }), false);
+  });
+});
@@ -0,0 +1,274 @@
+/**
+ * Permission rule parsing and matching
+ *
+ * Rules use the same shape as Claude Code's own permission settings:
+ *   "Read"                       - every call to the tool
+ *   "Bash(npm test:*)"           - Bash commands starting with "npm test"
+ *   "Bash(git status)"           - an exact Bash command (globs allowed, \ escapes * and ?)
+ *   "Edit(src/**)"               - file paths, relative to the project root
+ *   "WebFetch(domain:github.com)" - fetches to a hostname (globs allowed)
+ *   "mcp__github__*"             - tool name globs
+ */
+
+import { isAbsolute, relative, resolve, join } from 'node:path';
+import { homedir } from 'node:os';
+import { matchesGlob, hasGlobChars, escapeGlob } from '../utils/glob.js';
+
+export type PolicyAction = 'allow' | 'deny' | 'ask';
+
+export interface PermissionRule {
+  /** Original rule string, used when reporting which rule matched */
+  raw: string;
+  /** Tool name or tool name glob */
+  toolName: string;
+  /** Optional input specifier inside the parentheses */
+  specifier?: string;
+}
+
+export interface RuleMatchContext {
+  /** Project root that relative path rules are resolved against */
+  cwd: string;
+  /**
+   * Action of the rule being matched. Allow rules must cover every part of a
+   * compound Bash command, deny and ask rules only need to hit one part.
+   */
+  action: PolicyAction;
+}
+
+// Tools whose input is a file path, and the input field that holds it
+const PATH_TOOL_FIELDS: Record<string, string> = {
+  Read: 'file_path',
+  Write: 'file_path',
+  Edit: 'file_path',
+  MultiEdit: 'file_path',
+  NotebookEdit: 'notebook_path',
+  Glob: 'path',
+  Grep: 'path',
+};
+
+/**
+ * Parse a rule string like "Bash(npm test:*)"
+ * Returns null if the string is not a valid rule
+ */
+export function parseRule(raw: string): PermissionRule | null {
+  const match = raw.trim().match(/^([^()\s]+)(?:\((.*)\))?$/s);
+  if (!match) return null;
+
+  const [, toolName, specifier] = match;
+  if (specifier !== undefined && !specifier.trim()) {
+    return null;
+  }
+
+  return {
+    raw: raw.trim(),
+    toolName,
+    specifier: specifier?.trim(),
+  };
+}
+
+/**
+ * Check whether a tool call matches a rule
+ */
+export function ruleMatches(rule: PermissionRule, toolName: string, input: unknown, ctx: RuleMatchContext): boolean {
+  if (!matchesGlob(toolName, rule.toolName)) {
+    return false;
+  }
+
+  // A bare tool name covers every call to the tool
+  if (rule.specifier === undefined) {
+    return true;
+  }
+
+  const inp = (input ?? {}) as Record<string, unknown>;
+
+  if (toolName === 'Bash') {
+    return typeof inp.command === 'string' && bashCommandMatches(inp.command, rule.specifier, ctx.action);
+  }
+
+  const pathField = PATH_TOOL_FIELDS[toolName];
+  if (pathField) {
+    // Glob and Grep default to the working directory when no path is given
+    const filePath = typeof inp[pathField] === 'string' ? (inp[pathField] as string) : ctx.cwd;
+    return pathMatches(filePath, rule.specifier, ctx.cwd);
+  }
+
+  if (toolName === 'WebFetch') {
+    return typeof inp.url === 'string' && urlMatches(inp.url, rule.specifier);
+  }
+
+  // Specifiers on other tools are not understood, so never match them
+  return false;
+}
+
+// Control operators between simple commands; "&" in redirections like 2>&1 or &> is not one
+const SHELL_SEPARATORS = /&&|\|\||;|\|&?|(?<![<>])&(?!>)|\n/;
+
+// Redirections that only merge or discard output
+const SAFE_REDIRECTIONS = /\d?>&\d|\d?>\s*\/dev\/null/g;
+
+// Syntax a prefix can't vouch for: substitutions, subshells, groups and redirections
+const UNHANDLED_SHELL_SYNTAX = /[`<>(){}]/;
+
+/**
+ * Split a shell command into the simple commands joined by control operators
+ * Quotes are not interpreted, which errs on the side of more parts
+ */
+export function splitShellCommand(command: string): string[] {
+  return command
+    .split(SHELL_SEPARATORS)
+    .map((part) => part.trim())
+    .filter((part) => part.length > 0);
+}
+
+/**
+ * Whether a command uses shell syntax beyond simple commands and control operators
+ * Such commands are never auto-allowed by prefix or glob rules
+ */
+export function hasUnhandledShellSyntax(command: string): boolean {
+  return UNHANDLED_SHELL_SYNTAX.test(command.replace(SAFE_REDIRECTIONS, ''));
+}
+
+/**
+ * Match a Bash command against a specifier ("prefix:*", glob, or exact)
+ */
+function bashCommandMatches(command: string, specifier: string, action: PolicyAction): boolean {
+  const matchOne = (part: string): boolean => {
+    if (specifier.endsWith(':*')) {
+      const prefix = specifier.slice(0, -2).trim();
+      return part === prefix || part.startsWith(prefix + ' ');
+    }
+    // Without wildcards this is an exact match, with escapes resolved
+    return matchesGlob(part, specifier);
+  };
+
+  // An exact specifier always covers the identical command, compound or not
+  if (!specifier.endsWith(':*') && !hasGlobChars(specifier) && matchesGlob(command.trim(), specifier)) {
+    return true;
+  }
+
+  const parts = splitShellCommand(command);
+  if (parts.length === 0) return false;
+
+  if (action === 'allow') {
+    // Substitutions can run anything and redirections can write anywhere
+    if (hasUnhandledShellSyntax(command)) {
+      return false;
+    }
+    return parts.every(matchOne);
+  }
+
+  return matchOne(command.trim()) || parts.some(matchOne);
+}
+
+/**
+ * Match a file path against a path glob
+ * Relative globs only match files inside the project root
+ */
+function pathMatches(filePath: string, specifier: string, cwd: string): boolean {
+  const absolutePath = resolve(cwd, filePath);
+
+  let pattern = specifier;
+  if (pattern.startsWith('~/')) {
+    pattern = join(homedir(), pattern.slice(2));
+  }
+
+  if (isAbsolute(pattern)) {
+    return matchesGlob(absolutePath, pattern, { pathMode: true });
+  }
+
+  const relativePath = relative(resolve(cwd), absolutePath);
+  if (!relativePath || relativePath.startsWith('..') || isAbsolute(relativePath)) {
+    return false;
+  }
+
+  return matchesGlob(relativePath, pattern.replace(/^\.\//, ''), { pathMode: true });
+}
+
+/**
+ * Match a URL against a "domain:<host glob>" specifier
+ */
+function urlMatches(url: string, specifier: string): boolean {
+  if (!specifier.startsWith('domain:')) {
+    return false;
+  }
+
+  let hostname: string;
+  try {
+    hostname = new URL(url).hostname.toLowerCase();
+  } catch {
+    return false;
+  }
+
+  return matchesGlob(hostname, specifier.slice('domain:'.length).trim().toLowerCase());
+}
+
+/**
+ * Suggest "always allow" scopes for a tool call, narrowest first
+ * The first entry is used when the user answers "always" without picking a scope
+ */
+export function suggestScopes(toolName: string, input: unknown, cwd: string): string[] {
+  const inp = (input ?? {}) as Record<string, unknown>;
+  const scopes: string[] = [];
+
+  if (toolName === 'Bash' && typeof inp.command === 'string' && inp.command.trim()) {
+    const command = inp.command.trim();
+    // Exactly this command, even if it contains * or ?
+    scopes.push(`Bash(${escapeGlob(command)})`);
+
+    // Prefix scopes only make sense for a single simple command
+    const isSimple = splitShellCommand(command).length === 1 && !hasUnhandledShellSyntax(command);
+    if (isSimple) {
+      const words = command.split(/\s+/);
+      if (words.length > 2) scopes.push(`Bash(${words[0]} ${words[1]}:*)`);
+      if (words.length > 1) scopes.push(`Bash(${words[0]}:*)`);
+    }
+  }
+
+  const pathField = PATH_TOOL_FIELDS[toolName];
+  if (pathField && typeof inp[pathField] === 'string') {
+    const absolutePath = resolve(cwd, inp[pathField] as string);
+    const relativePath = relative(resolve(cwd), absolutePath);
+
+    if (relativePath && !relativePath.startsWith('..') && !isAbsolute(relativePath)) {
+      const segments = relativePath.split('/').map(escapeGlob);
+      scopes.push(`${toolName}(${segments.join('/')})`);
+      if (segments.length > 2) scopes.push(`${toolName}(${segments.slice(0, -1).join('/')}/**)`);
+      if (segments.length > 1) scopes.push(`${toolName}(${segments[0]}/**)`);
+      scopes.push(`${toolName}(**)`);
+    } else if (relativePath) {
+      scopes.push(`${toolName}(${escapeGlob(absolutePath)})`);
+      scopes.push(`${toolName}(${escapeGlob(join(absolutePath, '..'))}/**)`);
+    }
+  }
+
+  if (toolName === 'WebFetch' && typeof inp.url === 'string') {
+    try {
+      const hostname = new URL(inp.url).hostname.toLowerCase();
+      scopes.push(`WebFetch(domain:${hostname})`);
+      const labels = hostname.split('.');
+      if (labels.length > 2) scopes.push(`WebFetch(domain:*.${labels.slice(1).join('.')})`);
+    } catch {
+      // Unparseable URL - only the whole-tool scope applies
+    }
+  }
+
+  // The whole tool is always the broadest option
+  scopes.push(toolName);
+
+  return [...new Set(scopes)];
+}
+
+/**
+ * Validate a scope chosen by the user for an "always" answer
+ * The scope must name the requested tool exactly and cover the current call
+ */
+export function parseScopeForToolCall(scope: string, toolName: string, input: unknown, cwd: string): PermissionRule | null {
+  const rule = parseRule(scope);
+  if (!rule || rule.toolName !== toolName) {
+    return null;
+  }
+  if (!ruleMatches(rule, toolName, input, { cwd, action: 'allow' })) {
+    return null;
+  }
+  return rule;
+}
@@ -0,0 +1,43 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { validateUpdatedInput } from './toolInputSchemas.js';
+
+describe('validateUpdatedInput', () => {
+  it('accepts edited values for known tools', () => {
+    const result = validateUpdatedInput('Bash', { command: 'npm test' }, { command: 'npm test -- --watch=false' });
+    assert.deepEqual(result, { ok: true, input: { command: 'npm test -- --watch=false' } });
+  });
+
+  it('keeps extra fields Claude sent', () => {
+    const original = { file_path: 'a.ts', content: 'x', extra: 1 };
+    assert.deepEqual(validateUpdatedInput('Write', original, { ...original, content: 'y' }), {
+      ok: true,
+      input: { file_path: 'a.ts', content: 'y', extra: 1 },
+    });
+  });
+
+  it('rejects inputs that break the tool shape', () => {
+    assert.deepEqual(validateUpdatedInput('Bash', { command: 'ls' }, { command: '' }), {
+      ok: false,
+      error: 'Invalid Bash input: command String must contain at least 1 character(s)',
+    });
+    assert.equal(validateUpdatedInput('MultiEdit', { file_path: 'a.ts', edits: [] }, { file_path: 'a.ts', edits: [] }).ok, false);
+    assert.deepEqual(validateUpdatedInput('Read', { file_path: 'a.ts' }, ['a.ts']), { ok: false, error: 'Edited input must be an object' });
+  });
+
+  it('rejects fields the edit invented', () => {
+    assert.deepEqual(validateUpdatedInput('Bash', { command: 'ls' }, { command: 'ls', dangerouslyDisableSandbox: true }), {
+      ok: false,
+      error: 'Unknown field "dangerouslyDisableSandbox" for Bash',
+    });
+  });
+
+  it('keeps field types for tools without a known shape', () => {
+    const original = { query: 'x', limit: 5 };
+    assert.equal(validateUpdatedInput('mcp__db__search', original, { query: 'y', limit: 10 }).ok, true);
+    assert.deepEqual(validateUpdatedInput('mcp__db__search', original, { query: 'y', limit: '10' }), {
+      ok: false,
+      error: 'Field "limit" must stay a number',
+    });
+  });
+});
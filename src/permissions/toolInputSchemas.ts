@@ -0,0 +1,109 @@
+/**
+ * Input shapes for Claude Code's built-in tools
+ *
+ * Used to validate tool input that the user edited in the web UI before
+ * approving a permission request. Extra fields Claude sends are allowed to
+ * pass through, but an edit may not introduce fields of its own.
+ */
+
+import { z } from 'zod';
+
+const EditOperationSchema = z.object({
+  old_string: z.string(),
+  new_string: z.string(),
+  replace_all: z.boolean().optional(),
+});
+
+const TOOL_INPUT_SCHEMAS: Record<string, z.AnyZodObject> = {
+  Bash: z.object({
+    command: z.string().min(1),
+    description: z.string().optional(),
+    timeout: z.number().positive().optional(),
+    run_in_background: z.boolean().optional(),
+  }),
+  Read: z.object({
+    file_path: z.string().min(1),
+    offset: z.number().int().nonnegative().optional(),
+    limit: z.number().int().positive().optional(),
+  }),
+  Write: z.object({
+    file_path: z.string().min(1),
+    content: z.string(),
+  }),
+  Edit: z.object({
+    file_path: z.string().min(1),
+    old_string: z.string(),
+    new_string: z.string(),
+    replace_all: z.boolean().optional(),
+  }),
+  MultiEdit: z.object({
+    file_path: z.string().min(1),
+    edits: z.array(EditOperationSchema).min(1),
+  }),
+  NotebookEdit: z.object({
+    notebook_path: z.string().min(1),
+    new_source: z.string(),
+    cell_id: z.string().optional(),
+    cell_type: z.enum(['code', 'markdown']).optional(),
+    edit_mode: z.enum(['replace', 'insert', 'delete']).optional(),
+  }),
+  Glob: z.object({
+    pattern: z.string().min(1),
+    path: z.string().optional(),
+  }),
+  Grep: z.object({
+    pattern: z.string().min(1),
+    path: z.string().optional(),
+  }),
+  WebFetch: z.object({
+    url: z.string().url(),
+    prompt: z.string(),
+  }),
+  WebSearch: z.object({
+    query: z.string().min(1),
+    allowed_domains: z.array(z.string()).optional(),
+    blocked_domains: z.array(z.string()).optional(),
+  }),
+};
+
+export type ToolInputValidation =
+  | { ok: true; input: Record<string, unknown> }
+  | { ok: false; error: string };
+
+/**
+ * Validate an edited tool input against the tool's shape and the original input
+ */
+export function validateUpdatedInput(toolName: string, originalInput: unknown, updatedInput: unknown): ToolInputValidation {
+  if (typeof updatedInput !== 'object' || updatedInput === null || Array.isArray(updatedInput)) {
+    return { ok: false, error: 'Edited input must be an object' };
+  }
+
+  const original = (typeof originalInput === 'object' && originalInput !== null ? originalInput : {}) as Record<string, unknown>;
+  const updated = updatedInput as Record<string, unknown>;
+  const schema = TOOL_INPUT_SCHEMAS[toolName];
+
+  // An edit may change values but not invent fields the tool doesn't know about
+  const knownKeys = new Set([...Object.keys(original), ...(schema ? Object.keys(schema.shape) : [])]);
+  const unknownKey = Object.keys(updated).find((key) => !knownKeys.has(key));
+  if (unknownKey) {
+    return { ok: false, error: `Unknown field "${unknownKey}" for ${toolName}` };
+  }
+
+  if (schema) {
+    const result = schema.passthrough().safeParse(updated);
+    if (!result.success) {
+      const issue = result.error.issues[0];
+      return { ok: false, error: `Invalid ${toolName} input: ${issue.path.join('.') || 'input'} ${issue.message}` };
+    }
+    return { ok: true, input: result.data };
+  }
+
+  // Tools without a known shape (MCP tools etc.) keep the original field types
+  for (const [key, value] of Object.entries(updated)) {
+    if (key in original && original[key] !== null && typeof value !== typeof original[key]) {
+      return { ok: false, error: `Field "${key}" must stay a ${typeof original[key]}` };
+    }
+  }
+
+  return { ok: true, input: updated };
+}
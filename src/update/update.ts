@@ -55,7 +55,7 @@ export async function checkForUpdate(): Promise<VersionInfo> {
  * Compare two semantic versions
  * Returns -1 if v1 < v2, 0 if v1 == v2, 1 if v1 > v2
  */
-function compareVersions(v1: string, v2: string): number {
+export function compareVersions(v1: string, v2: string): number {
   const parts1 = v1.split('.').map(Number);
   const parts2 = v2.split('.').map(Number);
 
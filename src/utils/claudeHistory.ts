@@ -8,6 +8,9 @@
 import { readFileSync, readdirSync, statSync, existsSync } from 'node:fs';
 import { join } from 'node:path';
 import { homedir } from 'node:os';
+import { createLogger } from './logger.js';
+
+const log = createLogger('history');
 
 // Claude's local event types that we want to import
 interface ClaudeLocalEvent {
@@ -82,11 +85,11 @@ function findLatestSessionFile(projectDir: string): string | null {
     .sort((a, b) => b.mtime - a.mtime);
 
   if (files.length === 0) {
-    console.log('[history] No main session files found (agent sessions excluded)');
+    log.debug('No main session files found (agent sessions excluded)');
     return null;
   }
 
-  console.log(`[history] Found ${files.length} main session files, using: ${files[0].name} (${files[0].size} bytes)`);
+  log.debug(`Found ${files.length} main session files, using: ${files[0].name} (${files[0].size} bytes)`);
   return files[0].path;
 }
 
@@ -138,7 +141,7 @@ function convertToHistoricalEvents(events: ClaudeLocalEvent[]): HistoricalEvent[
         : Array.isArray(content) 
           ? (content[0]?.text?.slice(0, 50) || '[complex content]')
           : '[unknown format]';
-      console.log(`[history] User message: "${preview}..."`);
+      log.debug(`User message: "${preview}..."`);
       
       result.push({
         type: 'user',
@@ -155,7 +158,7 @@ function convertToHistoricalEvents(events: ClaudeLocalEvent[]): HistoricalEvent[
     }
   }
 
-  console.log(`[history] Conversion stats: ${userCount} user, ${assistantCount} assistant, ${skippedCount} skipped`);
+  log.debug(`Conversion stats: ${userCount} user, ${assistantCount} assistant, ${skippedCount} skipped`);
   return result;
 }
 
@@ -170,25 +173,25 @@ export function readClaudeLocalHistory(projectPath: string, limit: number = 250)
   const encodedPath = encodeProjectPath(projectPath);
   const projectDir = join(projectsDir, encodedPath);
 
-  console.log(`[history] Looking for Claude history in: ${projectDir}`);
+  log.debug(`Looking for Claude history in: ${projectDir}`);
 
   const latestSession = findLatestSessionFile(projectDir);
   if (!latestSession) {
-    console.log('[history] No Claude session history found');
+    log.debug('No Claude session history found');
     return null;
   }
 
-  console.log(`[history] Found session file: ${latestSession}`);
+  log.debug(`Found session file: ${latestSession}`);
 
   const events = parseSessionFile(latestSession);
-  console.log(`[history] Parsed ${events.length} raw events`);
+  log.debug(`Parsed ${events.length} raw events`);
 
   const historicalEvents = convertToHistoricalEvents(events);
-  console.log(`[history] Converted to ${historicalEvents.length} historical events`);
+  log.debug(`Converted to ${historicalEvents.length} historical events`);
 
   // Return only the most recent N messages
   if (historicalEvents.length > limit) {
-    console.log(`[history] Limiting to most recent ${limit} messages (had ${historicalEvents.length})`);
+    log.debug(`Limiting to most recent ${limit} messages (had ${historicalEvents.length})`);
     return historicalEvents.slice(-limit);
   }
 
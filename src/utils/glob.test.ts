@@ -0,0 +1,47 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { escapeGlob, hasGlobChars, matchesGlob } from './glob.js';
+
+describe('matchesGlob', () => {
+  it('matches * across any characters outside path mode', () => {
+    assert.equal(matchesGlob('git log --oneline', 'git log *'), true);
+    assert.equal(matchesGlob('a/b/c', 'a*c'), true);
+  });
+
+  it('stops * and ? at / in path mode', () => {
+    assert.equal(matchesGlob('src/a.ts', 'src/*', { pathMode: true }), true);
+    assert.equal(matchesGlob('src/a/b.ts', 'src/*', { pathMode: true }), false);
+    assert.equal(matchesGlob('src/a', 'src/?', { pathMode: true }), true);
+  });
+
+  it('crosses directories with **', () => {
+    assert.equal(matchesGlob('src/a/b.ts', 'src/**', { pathMode: true }), true);
+    assert.equal(matchesGlob('src/b.ts', 'src/**/b.ts', { pathMode: true }), true);
+    assert.equal(matchesGlob('src/a/b/c.ts', 'src/**/c.ts', { pathMode: true }), true);
+  });
+
+  it('treats regex characters literally', () => {
+    assert.equal(matchesGlob('a.b', 'a.b'), true);
+    assert.equal(matchesGlob('axb', 'a.b'), false);
+    assert.equal(matchesGlob('f(x)', 'f(x)'), true);
+  });
+});
+
+describe('hasGlobChars', () => {
+  it('detects wildcards', () => {
+    assert.equal(hasGlobChars('src/**'), true);
+    assert.equal(hasGlobChars('a?'), true);
+    assert.equal(hasGlobChars('git status'), false);
+  });
+
+  it('ignores escaped wildcards', () => {
+    assert.equal(hasGlobChars('rm \\*.log'), false);
+  });
+});
+
+describe('escapeGlob', () => {
+  it('makes wildcards literal', () => {
+    assert.equal(matchesGlob('a*b?c\\d', escapeGlob('a*b?c\\d')), true);
+    assert.equal(matchesGlob('axxbyc\\d', escapeGlob('a*b?c\\d')), false);
+  });
+});
@@ -0,0 +1,70 @@
+/**
+ * Minimal glob matching used by permission rules
+ *
+ * Supports `*`, `**` and `?`. In path mode `*` and `?` stop at `/` while `**`
+ * crosses directories; otherwise `*` matches any run of characters. A
+ * backslash makes the next character literal.
+ */
+
+export interface GlobOptions {
+  /** Treat `/` as a separator that single `*` cannot cross */
+  pathMode?: boolean;
+}
+
+/**
+ * Convert a glob pattern to an anchored regular expression
+ */
+export function globToRegExp(pattern: string, opts: GlobOptions = {}): RegExp {
+  const star = opts.pathMode ? '[^/]*' : '.*';
+  const single = opts.pathMode ? '[^/]' : '.';
+  let source = '';
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+
+    if (char === '\\' && i + 1 < pattern.length) {
+      source += pattern[i + 1].replace(/[.*?+^${}()|[\]\\]/g, '\\$&');
+      i += 1;
+    } else if (char === '*') {
+      if (pattern[i + 1] === '*') {
+        // "**/" matches zero or more directories, bare "**" matches anything
+        if (pattern[i + 2] === '/') {
+          source += '(?:.*/)?';
+          i += 2;
+        } else {
+          source += '.*';
+          i += 1;
+        }
+      } else {
+        source += star;
+      }
+    } else if (char === '?') {
+      source += single;
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+
+  return new RegExp(`^${source}$`, 's');
+}
+
+/**
+ * Check whether a value matches a glob pattern
+ */
+export function matchesGlob(value: string, pattern: string, opts: GlobOptions = {}): boolean {
+  return globToRegExp(pattern, opts).test(value);
+}
+
+/**
+ * Check whether a pattern contains any glob wildcards
+ */
+export function hasGlobChars(pattern: string): boolean {
+  return /[*?]/.test(pattern.replace(/\\./gs, ''));
+}
+
+/**
+ * Escape a value so it matches only itself as a glob
+ */
+export function escapeGlob(value: string): string {
+  return value.replace(/[\\*?]/g, '\\$&');
+}
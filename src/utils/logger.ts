@@ -0,0 +1,116 @@
+/**
+ * Leveled logger with named scopes
+ *
+ * Logs go to ~/.anyware/logs/<serverSessionId>.log (or anyware.log before a
+ * session exists), rotated when they grow too large, so diagnostics never
+ * clutter the terminal Claude runs in. ANYWARE_LOG_LEVEL picks the lowest
+ * level written (default: info); DEBUG also echoes every entry to stderr.
+ */
+
+import { appendFileSync, existsSync, mkdirSync, renameSync, statSync } from 'node:fs';
+import { join } from 'node:path';
+import { homedir } from 'node:os';
+import { format } from 'node:util';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export type LogScope = 'ws' | 'sdk' | 'hooks' | 'mcp' | 'scanner' | 'loop' | 'remote' | 'local' | 'session' | 'audit' | 'history';
+
+export interface Logger {
+  debug: (message: string, ...args: unknown[]) => void;
+  info: (message: string, ...args: unknown[]) => void;
+  warn: (message: string, ...args: unknown[]) => void;
+  error: (message: string, ...args: unknown[]) => void;
+}
+
+const LEVEL_ORDER: Record<LogLevel, number> = { debug: 0, info: 1, warn: 2, error: 3 };
+
+const ENV_LOG_LEVEL = 'ANYWARE_LOG_LEVEL';
+const DEFAULT_LOG_LEVEL: LogLevel = 'info';
+
+// Rotate at 5 MB, keeping this many older files (<name>.log.1 is the newest)
+const MAX_LOG_FILE_BYTES = 5 * 1024 * 1024;
+const MAX_ROTATED_FILES = 3;
+
+const LOG_DIR = join(homedir(), '.anyware', 'logs');
+
+let logFile = join(LOG_DIR, 'anyware.log');
+let logFileBytes: number | null = null;
+let writeFailed = false;
+
+function getMinLevel(): LogLevel {
+  const value = process.env[ENV_LOG_LEVEL]?.toLowerCase();
+  return value && value in LEVEL_ORDER ? (value as LogLevel) : DEFAULT_LOG_LEVEL;
+}
+
+/**
+ * Get the log file path for a session
+ */
+export function getSessionLogPath(serverSessionId: string): string {
+  return join(LOG_DIR, `${serverSessionId}.log`);
+}
+
+/**
+ * Send all further log entries to the session's log file
+ */
+export function setLogSession(serverSessionId: string): void {
+  logFile = getSessionLogPath(serverSessionId);
+  logFileBytes = null;
+}
+
+/**
+ * Shift <file>.1 -> <file>.2 ... and start a fresh file
+ */
+function rotate(): void {
+  for (let i = MAX_ROTATED_FILES - 1; i >= 1; i--) {
+    if (existsSync(`${logFile}.${i}`)) {
+      renameSync(`${logFile}.${i}`, `${logFile}.${i + 1}`);
+    }
+  }
+  renameSync(logFile, `${logFile}.1`);
+  logFileBytes = 0;
+}
+
+function write(line: string): void {
+  if (writeFailed) return;
+
+  try {
+    if (logFileBytes === null) {
+      mkdirSync(LOG_DIR, { recursive: true });
+      logFileBytes = existsSync(logFile) ? statSync(logFile).size : 0;
+    }
+    const bytes = Buffer.byteLength(line);
+    if (logFileBytes > 0 && logFileBytes + bytes > MAX_LOG_FILE_BYTES) {
+      rotate();
+    }
+    appendFileSync(logFile, line, { mode: 0o600 });
+    logFileBytes += bytes;
+  } catch (e) {
+    // Logging must never take the session down; report once and stop trying
+    writeFailed = true;
+    console.error(`Failed to write log file ${logFile}:`, e instanceof Error ? e.message : e);
+  }
+}
+
+function log(scope: LogScope, level: LogLevel, message: string, args: unknown[]): void {
+  if (LEVEL_ORDER[level] < LEVEL_ORDER[getMinLevel()]) return;
+
+  const text = format(message, ...args);
+  write(`${new Date().toISOString()} ${level.toUpperCase().padEnd(5)} [${scope}] ${text}\n`);
+
+  if (process.env.DEBUG) {
+    console.error(`\x1b[90m[${scope}] ${text}\x1b[0m`);
+  }
+}
+
+/**
+ * Create a logger for a scope
+ */
+export function createLogger(scope: LogScope): Logger {
+  return {
+    debug: (message, ...args) => log(scope, 'debug', message, args),
+    info: (message, ...args) => log(scope, 'info', message, args),
+    warn: (message, ...args) => log(scope, 'warn', message, args),
+    error: (message, ...args) => log(scope, 'error', message, args),
+  };
+}
@@ -46,6 +46,23 @@ export class MessageQueue {
     this.queue.push(queueMsg);
   }
 
+  /**
+   * Put a message back at the front of the queue, e.g. one Claude never got to answer
+   * Unlike push(), this doesn't notify the onMessage callback: the message isn't new
+   */
+  unshift(message: QueueMessage): void {
+    if (this.closed) return;
+
+    if (this.waitResolve) {
+      const resolve = this.waitResolve;
+      this.waitResolve = null;
+      resolve(message);
+      return;
+    }
+
+    this.queue.unshift(message);
+  }
+
   /**
    * Get next message from queue (non-blocking)
    */